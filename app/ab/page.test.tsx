@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { responseCache } from '../lib/cache';
+import { stubFetch } from '@/test/fetchStub';
+import SplitSearchPage from './page';
+
+vi.mock('next/navigation', () => ({
+  useSearchParams: () => new URLSearchParams(window.location.search),
+}));
+
+function renderSplit(url: string) {
+  window.history.replaceState({}, '', url);
+  return render(<SplitSearchPage />);
+}
+
+describe('A/B comparison', () => {
+  beforeEach(async () => {
+    await responseCache.purge();
+  });
+
+  it('keeps overlap@k at the k the results were fetched with', async () => {
+    stubFetch();
+    renderSplit('/ab?type=semantic&q=sea&a=mock&b=mock&limit=10');
+
+    expect(await screen.findByText('Overlap@10:')).toBeTruthy();
+    expect(screen.getByText('100%')).toBeTruthy();
+
+    await userEvent.selectOptions(screen.getByDisplayValue('10'), '20');
+    expect(screen.getByText('Overlap@10:')).toBeTruthy();
+  });
+
+  it('bounds the page size from the URL', async () => {
+    stubFetch();
+    renderSplit('/ab?type=semantic&q=sea&limit=500000');
+
+    expect(screen.getByDisplayValue('100')).toBeTruthy();
+  });
+
+  it('shows the newest comparison when an older one answers last', async () => {
+    stubFetch(async (request) => {
+      if (new URL(request.url).searchParams.get('q') === 'horses') {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+      return undefined;
+    });
+    renderSplit('/ab?type=semantic&q=horses&a=mock&b=mock&limit=10');
+
+    const input = screen.getByDisplayValue('horses');
+    await userEvent.clear(input);
+    await userEvent.type(input, 'winter snow{Enter}');
+
+    // The top result of each column
+    const topIds = () => screen.getAllByRole('list').map((list) => within(list).getAllByRole('link')[0].textContent);
+    await waitFor(() => expect(topIds()).toEqual(['1002', '1002']));
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    expect(topIds()).toEqual(['1002', '1002']);
+  });
+});
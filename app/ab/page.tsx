@@ -0,0 +1,374 @@
+"use client";
+
+import { useState, useEffect, useRef, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import Image from "next/image";
+import { ArrowDown, ArrowLeft, ArrowUp, Columns2, Search, Share2 } from "lucide-react";
+import { artworkAlt, artworkHref } from "../components/ArtworkCard";
+import EnvironmentSelect from "../components/EnvironmentSelect";
+import Toasts from "../components/Toasts";
+import { useEnvironments } from "../hooks/useEnvironments";
+import { useToasts } from "../hooks/useToasts";
+import {
+  DEFAULT_PAGE_SIZE,
+  runEmbeddingsQuery,
+  type ArtworkItem,
+  type EmbeddingsQuery,
+} from "../lib/embeddings";
+import { kendallTau, overlapAtK, rankChanges } from "../lib/ranking";
+import { readPageLimit } from "../lib/searchState";
+
+type SplitQueryType = 'semantic' | 'nearest_neighbor';
+
+const LIMITS = [10, 20, 30, 50];
+
+interface SideResult {
+  items?: ArtworkItem[];
+  model?: string;
+  upstreamUrl?: string;
+  error?: string;
+}
+
+// A finished comparison, with the environments and page size it ran with
+interface SplitRun {
+  sides: [SideResult, SideResult];
+  a: string;
+  b: string;
+  limit: number;
+}
+
+function RankChange({ change }: { change: number | null | undefined }) {
+  if (change === null) {
+    return <span className="text-xs bg-yellow-100 text-yellow-800 px-1 rounded">new</span>;
+  }
+  if (!change) {
+    return <span className="text-xs text-gray-400">=</span>;
+  }
+  return change > 0 ? (
+    <span className="inline-flex items-center text-xs text-green-700"><ArrowUp className="w-3 h-3" />{change}</span>
+  ) : (
+    <span className="inline-flex items-center text-xs text-red-600"><ArrowDown className="w-3 h-3" />{-change}</span>
+  );
+}
+
+function ResultColumn({
+  title,
+  side,
+  changes,
+  env,
+}: {
+  title: string;
+  side: SideResult | null;
+  changes?: Map<string, number | null>;
+  env: string;
+}) {
+  return (
+    <div className="flex-1 min-w-0 space-y-2">
+      <h2 className="font-semibold">{title}</h2>
+      {side?.model && <div className="text-xs text-gray-600">Model: {side.model}</div>}
+      {side?.upstreamUrl && <code className="block text-xs break-all text-gray-600">{side.upstreamUrl}</code>}
+      {side?.error && (
+        <div className="text-red-600 p-2 rounded-lg bg-red-50 text-sm">{side.error}</div>
+      )}
+      <ol className="space-y-2">
+        {side?.items?.map((item, index) => (
+          <li key={item.id} className="flex gap-2 items-center border rounded-lg p-2 bg-white">
+            <span className="w-6 text-right text-sm text-gray-500">{index + 1}</span>
+            {item.data?.image_url ? (
+              <Image
+                src={item.data.image_url}
+                alt={artworkAlt(item)}
+                className="w-12 h-12 object-cover"
+                width={48}
+                height={48}
+                unoptimized
+              />
+            ) : (
+              <div className="w-12 h-12 bg-gray-200" />
+            )}
+            <div className="flex-1 min-w-0 text-sm">
+              <Link
+                href={artworkHref(item.model_id, env)}
+                className="text-blue-600 hover:underline"
+              >
+                {item.model_id}
+              </Link>
+              {item.distance && (
+                <span className="text-gray-600"> · {parseFloat(item.distance).toFixed(4)}</span>
+              )}
+              <div className="truncate text-gray-600">{item.data?.description}</div>
+            </div>
+            {changes && <RankChange change={changes.get(String(item.model_id))} />}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+function SplitSearchContent() {
+  const searchParams = useSearchParams();
+  const { environments, defaultEnvironment } = useEnvironments();
+  const { toasts, dismissToast, copyShareLink } = useToasts();
+
+  const [envA, setEnvA] = useState(searchParams.get('a') || '');
+  const [envB, setEnvB] = useState(searchParams.get('b') || '');
+  const [queryType, setQueryType] = useState<SplitQueryType>(
+    searchParams.get('type') === 'nearest_neighbor' ? 'nearest_neighbor' : 'semantic'
+  );
+  const [searchQuery, setSearchQuery] = useState(searchParams.get('q') || '');
+  const [artworkId, setArtworkId] = useState(searchParams.get('id') || '');
+  const [limit, setLimit] = useState(() => readPageLimit(searchParams));
+  const [split, setSplit] = useState<SplitRun | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Default to comparing the default environment against the next one
+  useEffect(() => {
+    if (environments.length === 0) {
+      return;
+    }
+    setEnvA((current) => current || defaultEnvironment);
+    setEnvB((current) => current || environments.find((env) => env.id !== defaultEnvironment)?.id || defaultEnvironment);
+  }, [environments, defaultEnvironment]);
+
+  // Stop any comparison in flight when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Starting a comparison aborts the one in flight, so a slow stale
+  // response can never replace newer results
+  const runSplit = async (a: string, b: string, query: EmbeddingsQuery & { limit: number }) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    setSplit(null);
+
+    const [first, second] = await Promise.allSettled([
+      runEmbeddingsQuery(query, { env: a, signal: controller.signal }),
+      runEmbeddingsQuery(query, { env: b, signal: controller.signal }),
+    ]);
+    if (controller.signal.aborted) {
+      return;
+    }
+
+    const toSide = (settled: typeof first): SideResult => {
+      if (settled.status === 'rejected') {
+        return { error: settled.reason instanceof Error ? settled.reason.message : 'Search failed' };
+      }
+      if (settled.value.kind !== 'search') {
+        return { error: 'Expected ranked results', upstreamUrl: settled.value.upstreamUrl };
+      }
+      return { items: settled.value.data.items, model: settled.value.data.model, upstreamUrl: settled.value.upstreamUrl };
+    };
+
+    setSplit({ sides: [toSide(first), toSide(second)], a, b, limit: query.limit });
+    setLoading(false);
+  };
+
+  const buildQuery = (): (EmbeddingsQuery & { limit: number }) | null => {
+    if (queryType === 'semantic') {
+      return searchQuery.trim() ? { type: 'semantic', query: searchQuery, limit } : null;
+    }
+    return artworkId.trim() ? { type: 'nearest_neighbor', id: artworkId, limit } : null;
+  };
+
+  const writeUrl = () => {
+    const params = new URLSearchParams({ type: queryType, a: envA, b: envB });
+    if (queryType === 'semantic') {
+      params.set('q', searchQuery);
+    } else {
+      params.set('id', artworkId);
+    }
+    if (limit !== DEFAULT_PAGE_SIZE) {
+      params.set('limit', String(limit));
+    }
+    const newUrl = `${window.location.pathname}?${params.toString()}`;
+    window.history.pushState({ path: newUrl }, '', newUrl);
+  };
+
+  const handleSearch = () => {
+    const query = buildQuery();
+    if (!query) {
+      setError(queryType === 'semantic' ? 'Search query is required' : 'Artwork ID is required');
+      return;
+    }
+    writeUrl();
+    runSplit(envA, envB, query);
+  };
+
+  // Run a shared comparison once the environments are known
+  useEffect(() => {
+    const a = searchParams.get('a');
+    const b = searchParams.get('b');
+    const query = buildQuery();
+    if (a && b && query) {
+      runSplit(a, b, query);
+    }
+  // Only run this effect once on mount - empty dependency array
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleCopyShareLink = () => {
+    writeUrl();
+    copyShareLink();
+  };
+
+  const sides = split?.sides;
+  const idsA = sides?.[0].items?.map((item) => String(item.model_id)) ?? [];
+  const idsB = sides?.[1].items?.map((item) => String(item.model_id)) ?? [];
+  const bothLoaded = !!sides?.[0].items && !!sides?.[1].items;
+  const tau = bothLoaded ? kendallTau(idsA, idsB) : null;
+  const envLabel = (id: string) => environments.find((env) => env.id === id)?.label ?? id;
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-8">
+        <Link href="/" className="inline-flex items-center text-sm text-blue-600 hover:underline mb-4">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to search
+        </Link>
+        <h1 className="text-3xl font-bold mb-4 text-white-900">A/B Comparison</h1>
+
+        <div className="space-y-4 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <EnvironmentSelect environments={environments} value={envA} onChange={setEnvA} label="Environment A" />
+            <EnvironmentSelect environments={environments} value={envB} onChange={setEnvB} label="Environment B" />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2 text-white-900">Search Type</label>
+              <select
+                value={queryType}
+                onChange={(e) => setQueryType(e.target.value as SplitQueryType)}
+                className="w-full p-2 border rounded-lg text-gray-900"
+              >
+                <option value="semantic">Semantic Search</option>
+                <option value="nearest_neighbor">Nearest Neighbor</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2 text-white-900">Results (k)</label>
+              <select
+                value={limit}
+                onChange={(e) => setLimit(parseInt(e.target.value, 10))}
+                className="w-full p-2 border rounded-lg text-gray-900"
+              >
+                {[...new Set([...LIMITS, limit])].sort((a, b) => a - b).map((value) => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2 text-white-900">
+              {queryType === 'semantic' ? 'Search Query' : 'Artwork ID'}
+            </label>
+            <input
+              type="text"
+              value={queryType === 'semantic' ? searchQuery : artworkId}
+              onChange={(e) => (queryType === 'semantic' ? setSearchQuery : setArtworkId)(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSearch();
+                }
+              }}
+              placeholder={queryType === 'semantic' ? 'Enter search terms...' : 'Enter artwork ID...'}
+              className="w-full p-2 border rounded-lg text-gray-900"
+            />
+          </div>
+
+          <button
+            onClick={handleSearch}
+            disabled={loading}
+            className="flex items-center justify-center w-full p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-blue-300"
+          >
+            {loading ? (
+              'Searching...'
+            ) : (
+              <>
+                <Columns2 className="w-4 h-4 mr-2" />
+                Compare
+              </>
+            )}
+          </button>
+        </div>
+
+        {error && (
+          <div className="text-red-600 p-4 rounded-lg bg-red-50 mb-4">
+            {error}
+          </div>
+        )}
+
+        {split && sides && (
+          <div className="space-y-4 text-gray-900">
+            <div className="flex flex-wrap justify-between items-center gap-2 p-4 bg-gray-100 rounded-lg text-sm">
+              <div className="flex gap-6">
+                <div>
+                  <span className="font-medium">Overlap@{split.limit}:</span>{' '}
+                  {bothLoaded ? `${(overlapAtK(idsA, idsB, split.limit) * 100).toFixed(0)}%` : '–'}
+                </div>
+                <div>
+                  <span className="font-medium">Kendall τ (shared items):</span>{' '}
+                  {tau === null ? '–' : tau.toFixed(3)}
+                </div>
+              </div>
+              <button
+                onClick={handleCopyShareLink}
+                className="flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+              >
+                <Share2 className="w-4 h-4 mr-1" />
+                Copy Share Link
+              </button>
+            </div>
+
+            <div className="flex flex-col md:flex-row gap-4">
+              <ResultColumn title={`A: ${envLabel(split.a)}`} side={sides[0]} env={split.a} />
+              <ResultColumn
+                title={`B: ${envLabel(split.b)}`}
+                side={sides[1]}
+                changes={bothLoaded ? rankChanges(idsA, idsB) : undefined}
+                env={split.b}
+              />
+            </div>
+          </div>
+        )}
+
+        {!sides && !loading && (
+          <div className="flex items-center justify-center h-20 text-sm text-gray-500">
+            <Search className="w-4 h-4 mr-2" />
+            Run the same query against two environments to compare their rankings.
+          </div>
+        )}
+      </div>
+
+      <Toasts toasts={toasts} onDismiss={dismissToast} />
+    </div>
+  );
+}
+
+// Loading fallback for Suspense
+function SplitSearchLoading() {
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex items-center justify-center h-40">
+        <div className="text-lg">Loading search parameters...</div>
+      </div>
+    </div>
+  );
+}
+
+export default function SplitSearchPage() {
+  return (
+    <Suspense fallback={<SplitSearchLoading />}>
+      <SplitSearchContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest';
+import { APP_ORIGIN, stubFetch } from '@/test/fetchStub';
+import { POST } from './route';
+
+function post(fields: Record<string, string | Blob>, headers?: Record<string, string>) {
+  const form = new FormData();
+  Object.entries(fields).forEach(([name, value]) => form.set(name, value));
+  return POST(new Request(`${APP_ORIGIN}/api/artwork/image`, { method: 'POST', body: form, headers }));
+}
+
+function png(size = 16) {
+  return new File([new Uint8Array(size)], 'photo.png', { type: 'image/png' });
+}
+
+describe('POST /api/artwork/image', () => {
+  it('searches the mock environment by image URL', async () => {
+    const stub = stubFetch();
+
+    const response = await post({ imageUrl: `${APP_ORIGIN}/api/mock/images/1006.svg`, limit: '5' });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Upstream-Url')).toBe(`${APP_ORIGIN}/api/mock/ai/v1/artworks/search/image?limit=5`);
+    expect(body.items).toHaveLength(5);
+    expect(body.items[0].model_id).toBe(1006);
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('forwards an uploaded image as multipart form data', async () => {
+    let upstreamForm: FormData | undefined;
+    stubFetch(async (request) => {
+      upstreamForm = await request.formData();
+      return Response.json({ count: 0, items: [], model: 'test', id: null, total: 0 });
+    });
+
+    const response = await post({ image: png(), offset: '30', limit: 'many' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Upstream-Url')).toBe(`${APP_ORIGIN}/api/mock/ai/v1/artworks/search/image?offset=30`);
+    const image = upstreamForm?.get('image');
+    expect(image).toBeInstanceOf(File);
+    expect((image as File).name).toBe('photo.png');
+    expect((image as File).size).toBe(16);
+    expect(upstreamForm?.has('image_url')).toBe(false);
+  });
+
+  it('refuses an upload whose Content-Length is over the limit before reading it', async () => {
+    const stub = stubFetch();
+
+    const response = await post({ image: png() }, { 'Content-Length': String(50 * 1024 * 1024) });
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ code: 'IMAGE_TOO_LARGE', message: 'Image is larger than 10 MB' });
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('refuses an image over the limit', async () => {
+    stubFetch();
+    const response = await post({ image: png(10 * 1024 * 1024 + 1) });
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ code: 'IMAGE_TOO_LARGE' });
+  });
+
+  it('takes the size limit from AIC_IMAGE_MAX_BYTES', async () => {
+    vi.stubEnv('AIC_IMAGE_MAX_BYTES', '8');
+    stubFetch();
+    const response = await post({ image: png(16) });
+
+    expect(response.status).toBe(413);
+  });
+
+  it('refuses files that are not images', async () => {
+    const stub = stubFetch();
+    const response = await post({ image: new File(['%PDF'], 'paper.pdf', { type: 'application/pdf' }) });
+
+    expect(response.status).toBe(415);
+    expect(await response.json()).toEqual({
+      code: 'UNSUPPORTED_MEDIA_TYPE',
+      message: 'Unsupported image type application/pdf; use JPEG, PNG, WebP or GIF',
+    });
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('requires an image or an http(s) image URL', async () => {
+    stubFetch();
+    const response = await post({ imageUrl: 'file:///etc/passwd' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'MISSING_IMAGE' });
+  });
+
+  it('refuses a page past the bounds', async () => {
+    const stub = stubFetch();
+    const response = await post({ imageUrl: `${APP_ORIGIN}/api/mock/images/1006.svg`, limit: '1000' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'PAGE_OUT_OF_RANGE' });
+    expect(stub.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import { getEnvironment, resolveUpstreamUrl } from '@/app/lib/environments';
+import { IMAGE_SEARCH_PATH, MAX_IMAGE_BYTES, isPageInRange, validateImage } from '@/app/lib/embeddings';
+import {
+  ProxyError,
+  ProxyRequest,
+  errorResponse,
+  fetchUpstream,
+  pageOutOfRange,
+  upstreamErrorResponse,
+  upstreamHeaders,
+} from '@/app/lib/proxy';
+import { configured } from '@/app/lib/settings';
+
+function maxImageBytes() {
+  return configured('AIC_IMAGE_MAX_BYTES', MAX_IMAGE_BYTES);
+}
+
+// Room for the multipart boundaries and the other form fields
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
+// Search by image: validates an uploaded file (or an image URL, which the
+// upstream fetches itself) and forwards it as multipart form data.
+export async function POST(request: Request) {
+  const proxyRequest = new ProxyRequest(request, 'artwork/image');
+  proxyRequest.set({ endpoint: 'image', path: IMAGE_SEARCH_PATH });
+  return proxyRequest.finish(await proxy(request, proxyRequest));
+}
+
+async function proxy(request: Request, proxyRequest: ProxyRequest) {
+  try {
+    const limited = proxyRequest.rateLimit();
+    if (limited) {
+      return limited;
+    }
+
+    // Refuse oversized uploads before buffering the body to parse it
+    const length = parseInt(request.headers.get('Content-Length') ?? '', 10);
+    if (length > maxImageBytes() + FORM_OVERHEAD_BYTES) {
+      return errorResponse('IMAGE_TOO_LARGE', `Image is larger than ${Math.round(maxImageBytes() / 1024 / 1024)} MB`, 413);
+    }
+
+    let form: FormData;
+    try {
+      form = await request.formData();
+    } catch {
+      return errorResponse('INVALID_REQUEST', 'Expected multipart form data', 400);
+    }
+
+    const envId = form.get('env');
+    const env = getEnvironment(typeof envId === 'string' ? envId : null);
+    if (!env) {
+      return errorResponse('UNKNOWN_ENVIRONMENT', `Unknown API environment: ${envId}`, 400);
+    }
+    proxyRequest.set({ env: env.id });
+
+    const image = form.get('image');
+    const imageUrl = form.get('imageUrl');
+    const upstreamForm = new FormData();
+
+    if (image instanceof Blob) {
+      const invalid = validateImage(image, maxImageBytes());
+      if (invalid) {
+        return image.size > maxImageBytes()
+          ? errorResponse('IMAGE_TOO_LARGE', invalid, 413)
+          : errorResponse('UNSUPPORTED_MEDIA_TYPE', invalid, 415);
+      }
+      upstreamForm.set('image', image, image instanceof File ? image.name : 'image');
+    } else if (typeof imageUrl === 'string' && /^https?:\/\//.test(imageUrl)) {
+      upstreamForm.set('image_url', imageUrl);
+    } else {
+      return errorResponse('MISSING_IMAGE', 'An image file or http(s) image URL is required', 400);
+    }
+
+    const params = new URLSearchParams();
+    ['limit', 'offset'].forEach((name) => {
+      const value = form.get(name);
+      if (typeof value === 'string' && /^\d+$/.test(value)) {
+        params.set(name, value);
+      }
+    });
+    if (!isPageInRange(params)) {
+      return pageOutOfRange();
+    }
+
+    const url = resolveUpstreamUrl(env, `${IMAGE_SEARCH_PATH}${params.size > 0 ? `?${params.toString()}` : ''}`);
+    if (!url) {
+      return errorResponse('PATH_NOT_ALLOWED', 'Path is not allowed', 403);
+    }
+
+    // Not retried: it's a POST, and uploads can be large
+    const response = await proxyRequest.upstream(() => fetchUpstream(url, {
+      method: 'POST',
+      headers: upstreamHeaders(env),
+      body: upstreamForm,
+    }, request.signal));
+
+    const responseHeaders = { 'X-Upstream-Url': url.toString() };
+
+    if (!response.ok) {
+      return upstreamErrorResponse(response, responseHeaders);
+    }
+
+    return NextResponse.json(response.data, { headers: responseHeaders });
+  } catch (error) {
+    if (error instanceof ProxyError) {
+      return error.toResponse();
+    }
+    console.error('API Error:', error);
+    return errorResponse('PROXY_ERROR', 'Failed to fetch results', 500);
+  }
+}
@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { responseCache } from '@/app/lib/cache';
+import { rateLimiter } from '@/app/lib/rateLimit';
+import { APP_ORIGIN, stubFetch } from '@/test/fetchStub';
+import { GET } from './route';
+
+function get(path: string | null, env?: string) {
+  const params = new URLSearchParams();
+  if (path !== null) {
+    params.set('path', path);
+  }
+  if (env) {
+    params.set('env', env);
+  }
+  return GET(new Request(`${APP_ORIGIN}/api/artwork?${params.toString()}`));
+}
+
+describe('GET /api/artwork', () => {
+  beforeEach(async () => {
+    await responseCache.purge();
+  });
+
+  it('proxies a search to the environment and reports the upstream URL', async () => {
+    const stub = stubFetch();
+
+    const response = await get('/ai/v1/artworks/search?q=winter%20snow&limit=3');
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Upstream-Url')).toBe(`${APP_ORIGIN}/api/mock/ai/v1/artworks/search?q=winter%20snow&limit=3`);
+    expect(body.count).toBe(3);
+    expect(body.items[0].model_id).toBe(1002);
+    expect(stub.requests.map((request) => request.url)).toEqual([response.headers.get('X-Upstream-Url')]);
+  });
+
+  it('requires a path', async () => {
+    stubFetch();
+    const response = await get(null);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'MISSING_PATH' });
+  });
+
+  it('refuses environments outside the allowlist', async () => {
+    const stub = stubFetch();
+    const response = await get('/ai/v1/artworks/search?q=sea', 'elsewhere');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'UNKNOWN_ENVIRONMENT' });
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it.each([
+    '/api/v1/artworks',
+    '/ai/v1/../../admin',
+    '//evil.example.com/ai/v1/artworks/search',
+  ])('refuses the path %s', async (path) => {
+    const stub = stubFetch();
+    const response = await get(path);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'PATH_NOT_ALLOWED' });
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('passes upstream client errors through', async () => {
+    stubFetch();
+    const response = await get('/ai/v1/artworks/9999');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      code: 'UPSTREAM_NOT_FOUND',
+      message: 'Artwork 9999 not found',
+      upstreamStatus: 404,
+    });
+  });
+
+  it('turns upstream server errors into a 502', async () => {
+    stubFetch(() => new Response('<h1>Bad Gateway</h1>', { status: 503 }));
+    const response = await get('/ai/v1/artworks/search?q=sea');
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({
+      code: 'UPSTREAM_UNAVAILABLE',
+      message: 'Embeddings API returned HTTP 503',
+      upstreamStatus: 503,
+    });
+  });
+
+  it('reports a successful response that is not JSON', async () => {
+    stubFetch(() => new Response('<html></html>', { status: 200 }));
+    const response = await get('/ai/v1/artworks/search?q=sea');
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ code: 'UPSTREAM_INVALID_RESPONSE', upstreamStatus: 200 });
+  });
+
+  it('reports an unreachable upstream', async () => {
+    stubFetch(() => {
+      throw new TypeError('fetch failed');
+    });
+    const response = await get('/ai/v1/artworks/search?q=sea');
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ code: 'UPSTREAM_UNREACHABLE' });
+  });
+
+  it('serves cache hits and refuses invalid requests without taking a rate limit token', async () => {
+    stubFetch();
+    await get('/ai/v1/artworks/search?q=sea');
+    const take = vi.spyOn(rateLimiter, 'take').mockReturnValue({ allowed: false, remaining: 0, retryAfter: 5 });
+
+    const hit = await get('/ai/v1/artworks/search?q=sea');
+    expect(hit.status).toBe(200);
+    expect((await get('/api/v1/artworks')).status).toBe(403);
+    expect(take).not.toHaveBeenCalled();
+
+    const limited = await get('/ai/v1/artworks/search?q=lake');
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('5');
+    expect(await limited.json()).toMatchObject({ code: 'RATE_LIMITED' });
+    take.mockRestore();
+  });
+
+  it('answers repeated requests from the cache', async () => {
+    const stub = stubFetch();
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    const miss = await get('/ai/v1/artworks/search?q=sea');
+    expect(miss.headers.get('X-Cache')).toBe('MISS');
+    expect(miss.headers.get('Age')).toBe('0');
+
+    vi.advanceTimersByTime(42000);
+    const hit = await get('/ai/v1/artworks/search?q=sea');
+    expect(hit.headers.get('X-Cache')).toBe('HIT');
+    expect(hit.headers.get('Age')).toBe('42');
+    expect(hit.headers.get('X-Upstream-Url')).toBe(miss.headers.get('X-Upstream-Url'));
+    expect(await hit.json()).toEqual(await miss.json());
+    expect(stub.requests).toHaveLength(1);
+    vi.useRealTimers();
+  });
+
+  it('bypasses the cache for endpoint types with no TTL', async () => {
+    vi.stubEnv('AIC_CACHE_TTL_SEARCH', '0');
+    const stub = stubFetch();
+
+    expect((await get('/ai/v1/artworks/search?q=sea')).headers.get('X-Cache')).toBe('BYPASS');
+    expect((await get('/ai/v1/artworks/search?q=sea')).headers.get('X-Cache')).toBe('BYPASS');
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  it.each([
+    '/ai/v1/artworks/search?q=sea&limit=500000',
+    '/ai/v1/artworks/1/nearest?limit=30&offset=99999999',
+    '/ai/v1/artworks/search?q=sea&limit=lots',
+  ])('refuses the page in %s', async (path) => {
+    const stub = stubFetch();
+    const response = await get(path);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'PAGE_OUT_OF_RANGE' });
+    expect(stub.requests).toHaveLength(0);
+  });
+});
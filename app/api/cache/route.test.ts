@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { cacheKey, responseCache } from '@/app/lib/cache';
+import { APP_ORIGIN } from '@/test/fetchStub';
+import { DELETE, GET } from './route';
+
+function purge(query = '', token?: string) {
+  return DELETE(new Request(`${APP_ORIGIN}/api/cache${query}`, {
+    method: 'DELETE',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  }));
+}
+
+describe('/api/cache', () => {
+  beforeEach(async () => {
+    await responseCache.purge();
+    await responseCache.set(cacheKey('mock', '/ai/v1/artworks/search?q=sea'), {}, '', 60);
+    await responseCache.set(cacheKey('test', '/ai/v1/artworks/search?q=sea'), {}, '', 60);
+  });
+
+  it('reports the entry count and TTLs', async () => {
+    const body = await (await GET()).json();
+    expect(body.entries).toBe(2);
+    expect(body.ttls).toMatchObject({ search: 300, other: 0 });
+  });
+
+  it('refuses to purge when no token is configured', async () => {
+    vi.stubEnv('AIC_CACHE_PURGE_TOKEN', '');
+    const response = await purge();
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'PURGE_DISABLED' });
+    expect(responseCache.size).toBe(2);
+  });
+
+  it('requires the purge token', async () => {
+    vi.stubEnv('AIC_CACHE_PURGE_TOKEN', 'secret');
+
+    expect((await purge('', 'wrong')).status).toBe(401);
+    expect((await purge()).status).toBe(401);
+    expect(responseCache.size).toBe(2);
+  });
+
+  it('purges one environment or everything', async () => {
+    vi.stubEnv('AIC_CACHE_PURGE_TOKEN', 'secret');
+
+    expect(await (await purge('?env=test&path=/ai/v1/artworks/search', 'secret')).json()).toEqual({ purged: 1 });
+    expect(await (await purge('', 'secret')).json()).toEqual({ purged: 1 });
+    expect((await purge('?path=/ai/v1', 'secret')).status).toBe(400);
+  });
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { cacheKey, cacheTtls, responseCache } from '@/app/lib/cache';
+import { errorResponse } from '@/app/lib/proxy';
+import { isAuthorized } from '@/app/lib/settings';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json({
+    entries: responseCache.size,
+    ttls: cacheTtls(),
+  });
+}
+
+// Purge everything, one environment (?env=test) or one environment's
+// paths under a prefix (?env=test&path=/ai/v1/artworks/search). Purging
+// requires AIC_CACHE_PURGE_TOKEN as a bearer token, and is disabled when
+// no token is configured.
+export async function DELETE(request: Request) {
+  if (!process.env.AIC_CACHE_PURGE_TOKEN) {
+    return errorResponse('PURGE_DISABLED', 'Purging is disabled; set AIC_CACHE_PURGE_TOKEN to enable it', 403);
+  }
+
+  if (!isAuthorized(request, 'AIC_CACHE_PURGE_TOKEN')) {
+    return errorResponse('UNAUTHORIZED', 'Invalid purge token', 401);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const envId = searchParams.get('env');
+  const path = searchParams.get('path');
+
+  if (path && !envId) {
+    return errorResponse('MISSING_ENVIRONMENT', 'env is required when purging a path', 400);
+  }
+
+  const prefix = envId ? cacheKey(envId, path ?? '') : '';
+  const purged = await responseCache.purge(prefix);
+
+  return NextResponse.json({ purged });
+}
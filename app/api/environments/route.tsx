@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { listEnvironments } from '@/app/lib/environments';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json(listEnvironments());
+}
@@ -0,0 +1,17 @@
+import { renderMetrics } from '@/app/lib/metrics';
+import { errorResponse } from '@/app/lib/proxy';
+import { isAuthorized } from '@/app/lib/settings';
+
+export const dynamic = 'force-dynamic';
+
+// Proxy counters and histograms in the Prometheus text format. When
+// AIC_METRICS_TOKEN is set, scraping requires it as a bearer token.
+export async function GET(request: Request) {
+  if (!isAuthorized(request, 'AIC_METRICS_TOKEN')) {
+    return errorResponse('UNAUTHORIZED', 'Invalid metrics token', 401);
+  }
+
+  return new Response(renderMetrics(), {
+    headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+  });
+}
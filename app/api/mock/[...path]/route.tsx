@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { handleMockRequest, mockApiEnabled } from '@/app/lib/mockApi';
+
+export const dynamic = 'force-dynamic';
+
+// The mock embeddings API: /api/mock/ai/v1/... answers like the real API's
+// /ai/v1/..., and /api/mock/images/{id}.svg serves the fixture images
+async function respond(request: Request) {
+  if (!mockApiEnabled()) {
+    return NextResponse.json({ detail: 'Not Found' }, { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const path = url.pathname.replace(/^\/api\/mock/, '');
+
+  let form: FormData | null = null;
+  if (request.method === 'POST') {
+    try {
+      form = await request.formData();
+    } catch {
+      return NextResponse.json({ detail: 'Expected multipart form data' }, { status: 422 });
+    }
+  }
+
+  const { status, body, contentType } = handleMockRequest(request.method, path, url.searchParams, url.origin, form);
+  if (contentType) {
+    return new Response(String(body), { status, headers: { 'Content-Type': contentType } });
+  }
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(request: Request) {
+  return respond(request);
+}
+
+export async function POST(request: Request) {
+  return respond(request);
+}
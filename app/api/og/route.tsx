@@ -0,0 +1,47 @@
+import { ImageResponse } from 'next/og';
+import { describeQuery } from '@/app/lib/export';
+import { previewImages, runInitialSearch, summarizeResult } from '@/app/lib/serverSearch';
+
+export const dynamic = 'force-dynamic';
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+
+// Open Graph preview for a search URL: the query, a summary and the top
+// result thumbnails. Takes the same parameters as the search page.
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const search = await runInitialSearch(searchParams, request);
+
+  const title = search ? describeQuery(search.query) : 'Artwork Search';
+  const summary = search ? summarizeResult(search.result) : 'Search the collection by meaning, image and similarity.';
+  const images = search ? await previewImages(search, request) : [];
+
+  return new ImageResponse(
+    (
+      <div style={{ display: 'flex', flexDirection: 'column', width: '100%', height: '100%', padding: 48, background: '#111827', color: '#ffffff' }}>
+        <div style={{ display: 'flex', fontSize: 28, color: '#9ca3af' }}>Artwork Search</div>
+        <div style={{ display: 'flex', fontSize: 52, fontWeight: 700, marginTop: 12, lineHeight: 1.15 }}>
+          {title.length > 90 ? `${title.slice(0, 89)}…` : title}
+        </div>
+        <div style={{ display: 'flex', fontSize: 24, color: '#d1d5db', marginTop: 16 }}>
+          {summary.length > 140 ? `${summary.slice(0, 139)}…` : summary}
+        </div>
+        <div style={{ display: 'flex', gap: 16, marginTop: 'auto' }}>
+          {images.map((src) => (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              key={src}
+              src={src}
+              alt=""
+              width={(WIDTH - 96 - 16 * 3) / 4}
+              height={260}
+              style={{ objectFit: 'cover', borderRadius: 8 }}
+            />
+          ))}
+        </div>
+      </div>
+    ),
+    { width: WIDTH, height: HEIGHT }
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { useState, useEffect, useMemo, Suspense } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { getArtwork, type ArtworkItem } from "../../lib/embeddings";
+import { analysisData, overlayBoxes, type OverlayLayer } from "../../lib/vision";
+import VisionOverlay, { OVERLAY_LAYERS } from "../../components/VisionOverlay";
+
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+function ArtworkDetailContent() {
+  const params = useParams<{ id: string }>();
+  const searchParams = useSearchParams();
+  const env = searchParams.get('env') || '';
+
+  const [artwork, setArtwork] = useState<ArtworkItem | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [visibleLayers, setVisibleLayers] = useState<OverlayLayer[]>(OVERLAY_LAYERS.map(({ layer }) => layer));
+  const [minConfidence, setMinConfidence] = useState(DEFAULT_MIN_CONFIDENCE);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+
+    getArtwork(params.id, { env })
+      .then(({ item }) => setArtwork(item))
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Failed to load artwork');
+        console.error('Artwork error:', err);
+      })
+      .finally(() => setLoading(false));
+  }, [params.id, env]);
+
+  const boxes = useMemo(() => (artwork ? overlayBoxes(artwork) : []), [artwork]);
+  const analysis = artwork ? analysisData(artwork) : undefined;
+  const aicDescription = artwork?.image_embedding_data?.description_generation_data?.aic_description;
+  const imageUrl = artwork?.image_embedding_data?.image_url || artwork?.data?.image_url;
+
+  const toggleLayer = (layer: OverlayLayer) => {
+    setVisibleLayers((current) =>
+      current.includes(layer) ? current.filter((existing) => existing !== layer) : [...current, layer]
+    );
+  };
+
+  const backHref = env ? `/?env=${encodeURIComponent(env)}` : '/';
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-8">
+        <Link href={backHref} className="inline-flex items-center text-sm text-blue-600 hover:underline mb-4">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to search
+        </Link>
+        <h1 className="text-3xl font-bold mb-4 text-white-900">Artwork {params.id}</h1>
+
+        {loading && (
+          <div className="flex items-center justify-center h-40">
+            <div className="text-lg">Loading artwork...</div>
+          </div>
+        )}
+
+        {error && (
+          <div className="text-red-600 p-4 rounded-lg bg-red-50 mb-4">
+            {error}
+          </div>
+        )}
+
+        {artwork && (
+          <div className="flex flex-col lg:flex-row gap-6">
+            <div className="flex-1">
+              {imageUrl ? (
+                <VisionOverlay
+                  imageUrl={imageUrl}
+                  alt={analysis?.caption || artwork.data.description?.slice(0, 100) || "Artwork image"}
+                  boxes={boxes}
+                  visibleLayers={visibleLayers}
+                  minConfidence={minConfidence}
+                />
+              ) : (
+                <div className="text-sm text-gray-500">No image available</div>
+              )}
+            </div>
+
+            <div className="w-full lg:w-80 space-y-6 border rounded-lg p-4 bg-white text-gray-900">
+              <div>
+                <h2 className="font-semibold mb-2">Overlays</h2>
+                {boxes.length === 0 && (
+                  <p className="text-sm text-gray-500">No vision analysis data for this artwork.</p>
+                )}
+                {OVERLAY_LAYERS.map(({ layer, label, color }) => (
+                  <label key={layer} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={visibleLayers.includes(layer)}
+                      onChange={() => toggleLayer(layer)}
+                    />
+                    <span className="inline-block w-3 h-3" style={{ backgroundColor: color }} />
+                    {label} ({boxes.filter((box) => box.layer === layer).length})
+                  </label>
+                ))}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Min Confidence: {(minConfidence * 100).toFixed(0)}%
+                </label>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={minConfidence}
+                  onChange={(e) => setMinConfidence(parseFloat(e.target.value))}
+                  className="w-full"
+                />
+              </div>
+
+              {analysis?.caption && (
+                <div>
+                  <h2 className="font-semibold mb-1">Caption</h2>
+                  <p className="text-sm">{analysis.caption}</p>
+                </div>
+              )}
+
+              {analysis?.tags && analysis.tags.length > 0 && (
+                <div>
+                  <h2 className="font-semibold mb-1">Tags</h2>
+                  <ul className="flex flex-wrap gap-1">
+                    {analysis.tags
+                      .filter((tag) => tag.confidence >= minConfidence)
+                      .map((tag) => (
+                        <li key={tag.name} className="bg-gray-100 rounded-full px-2 py-0.5 text-xs">
+                          {tag.name} ({(tag.confidence * 100).toFixed(0)}%)
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              )}
+
+              {aicDescription && (
+                <div>
+                  <h2 className="font-semibold mb-1">AIC Description</h2>
+                  <p className="text-sm">{aicDescription}</p>
+                </div>
+              )}
+
+              {artwork.data.description && (
+                <div>
+                  <h2 className="font-semibold mb-1">Generated Description</h2>
+                  <p className="text-sm">{artwork.data.description}</p>
+                </div>
+              )}
+
+              <div className="text-sm text-gray-600">
+                <a href={`https://artic.edu/artworks/${artwork.model_id}`} className="text-blue-600 hover:underline">
+                  View on artic.edu
+                </a>
+                {artwork.model_name && (
+                  <div>Model: {artwork.model_name} {artwork.version}</div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Loading fallback for Suspense
+function ArtworkDetailLoading() {
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex items-center justify-center h-40">
+        <div className="text-lg">Loading artwork...</div>
+      </div>
+    </div>
+  );
+}
+
+export default function ArtworkDetailPage() {
+  return (
+    <Suspense fallback={<ArtworkDetailLoading />}>
+      <ArtworkDetailContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { Plus, X } from "lucide-react";
+import { formatAnalogy, MAX_ANALOGY_TERMS, type AnalogyTerm, type AnalogyTermKind } from "../lib/analogy";
+
+interface AnalogyBuilderProps {
+  terms: AnalogyTerm[];
+  onChange: (terms: AnalogyTerm[]) => void;
+}
+
+// Rows of weighted artwork/text terms that make up an analogy expression
+export default function AnalogyBuilder({ terms, onChange }: AnalogyBuilderProps) {
+  const updateTerm = (index: number, changes: Partial<AnalogyTerm>) => {
+    onChange(terms.map((term, i) => (i === index ? { ...term, ...changes } : term)));
+  };
+
+  return (
+    <div role="group" aria-labelledby="analogy-terms-label" className="space-y-2">
+      <div id="analogy-terms-label" className="block text-sm font-medium mb-2 text-white-900">Analogy Terms</div>
+      {terms.map((term, index) => (
+        <div key={index} className="flex gap-2 items-center">
+          <input
+            type="number"
+            step={0.1}
+            value={term.weight}
+            onChange={(e) => updateTerm(index, { weight: parseFloat(e.target.value) || 0 })}
+            className="w-20 p-2 border rounded-lg text-gray-900"
+            aria-label="Weight"
+            title="Weight (negative to subtract)"
+          />
+          <select
+            value={term.kind}
+            onChange={(e) => updateTerm(index, { kind: e.target.value as AnalogyTermKind })}
+            className="p-2 border rounded-lg text-gray-900"
+            aria-label="Term type"
+          >
+            <option value="artwork">Artwork</option>
+            <option value="text">Text</option>
+          </select>
+          <input
+            type="text"
+            value={term.value}
+            onChange={(e) => updateTerm(index, { value: e.target.value })}
+            placeholder={term.kind === 'artwork' ? 'Artwork ID...' : 'Text, e.g. winter...'}
+            aria-label={term.kind === 'artwork' ? 'Artwork ID' : 'Text'}
+            className="flex-1 p-2 border rounded-lg text-gray-900"
+          />
+          <button
+            type="button"
+            onClick={() => onChange(terms.filter((_, i) => i !== index))}
+            disabled={terms.length === 1}
+            className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+            aria-label="Remove term"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex justify-between items-center">
+        <button
+          type="button"
+          onClick={() => onChange([...terms, { kind: 'text', value: '', weight: 1 }])}
+          disabled={terms.length >= MAX_ANALOGY_TERMS}
+          className="flex items-center text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded-full disabled:opacity-50"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add term
+        </button>
+        <code className="text-sm text-gray-500 break-all">{formatAnalogy(terms)}</code>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { ArrowLeftRight, Columns2, Star, Waypoints } from "lucide-react";
+import Image from "next/image";
+import Link from "next/link";
+import type { ArtworkItem } from "../lib/embeddings";
+import { collectionHas, type Collection } from "../lib/library";
+
+interface ArtworkCardProps {
+  item: ArtworkItem;
+  // Roving focus from ArtworkGrid: only one card is in the tab order
+  tabIndex?: number;
+  onFocus?: () => void;
+  onKeyDown?: (event: React.KeyboardEvent<HTMLElement>) => void;
+  // Id of the element describing the keyboard shortcuts
+  describedBy?: string;
+  // Environment for the details link; empty for the default one
+  env: string;
+  // Which vector index(es) the artwork was found in, for modality searches
+  index?: string;
+  collection?: Collection;
+  onToggleCollection?: () => void;
+  // Pivots from this artwork to another query type
+  onFindSimilar?: () => void;
+  onCompare?: () => void;
+  onBetween?: () => void;
+  // Set while a compare or between pivot waits for its second artwork; the
+  // card then offers to be it instead
+  onPick?: () => void;
+}
+
+const ACTION_CLASS = 'flex items-center text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded-full';
+
+// Longest alt text taken from a description
+const MAX_ALT_LENGTH = 125;
+
+export function artworkHref(id: number, env: string) {
+  return `/artworks/${id}${env ? `?env=${encodeURIComponent(env)}` : ''}`;
+}
+
+// The description's first sentence, cut at a word boundary when it's long
+export function artworkAlt(item: ArtworkItem) {
+  const description = item.data?.description?.replace(/\s+/g, ' ').trim();
+  if (!description) {
+    return `Artwork ${item.model_id}`;
+  }
+  const sentence = description.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? description;
+  if (sentence.length <= MAX_ALT_LENGTH) {
+    return sentence;
+  }
+  const cut = sentence.lastIndexOf(' ', MAX_ALT_LENGTH);
+  return `${sentence.slice(0, cut > 0 ? cut : MAX_ALT_LENGTH)}…`;
+}
+
+// One artwork in the search results grid
+export default function ArtworkCard({
+  item,
+  tabIndex,
+  onFocus,
+  onKeyDown,
+  describedBy,
+  env,
+  index,
+  collection,
+  onToggleCollection,
+  onFindSimilar,
+  onCompare,
+  onBetween,
+  onPick,
+}: ArtworkCardProps) {
+  const inCollection = collectionHas(collection, item.model_id);
+
+  return (
+    <div
+      role="listitem"
+      data-artwork-card
+      tabIndex={tabIndex}
+      onFocus={onFocus}
+      onKeyDown={onKeyDown}
+      aria-label={`Artwork ${item.model_id}`}
+      aria-describedby={describedBy}
+      className="border rounded-lg overflow-hidden bg-white focus:outline-none focus:ring-2 focus:ring-blue-600"
+    >
+      <div className="p-4">
+        {item.data?.image_url && (
+          <div className="aspect-w-4 aspect-h-3 w-full">
+            <Image
+              src={item.data.image_url}
+              alt={artworkAlt(item)}
+              className="w-full object-cover"
+              width={300}
+              height={225}
+              unoptimized
+            />
+          </div>
+        )}
+        <div className="text-sm mb-2 text-gray-900 pt-2">
+          <a href={`https://artic.edu/artworks/${item.model_id}`}>ID: {item.model_id}</a>
+          {' · '}
+          <Link
+            href={artworkHref(item.model_id, env)}
+            className="text-blue-600 hover:underline"
+          >
+            Details
+          </Link>
+          {collection && onToggleCollection && (
+            <button
+              onClick={onToggleCollection}
+              className="float-right text-gray-500 hover:text-yellow-500"
+              title={inCollection ? `Remove from ${collection.name}` : `Add to ${collection.name}`}
+              aria-pressed={inCollection}
+            >
+              <Star className={`w-4 h-4 ${inCollection ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+            </button>
+          )}
+        </div>
+        {item.data.description && (
+          <p className="text-sm mb-4 text-gray-900">
+            <b>Description:</b> {item.data.description}
+          </p>
+        )}
+        {item.distance && (
+          <div className="text-sm text-blue-600">
+            Distance: {parseFloat(item.distance).toFixed(4)}
+          </div>
+        )}
+        {item.embedding_type && (
+          <div className="text-sm text-gray-900">
+            Type: {item.embedding_type}
+          </div>
+        )}
+        {index && (
+          <div className="text-sm text-gray-900">
+            Index: {index}
+          </div>
+        )}
+        {onPick ? (
+          <div className="flex mt-3">
+            <button onClick={onPick} className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700">
+              Use as second artwork
+            </button>
+          </div>
+        ) : (onFindSimilar || onCompare || onBetween) && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {onFindSimilar && (
+              <button onClick={onFindSimilar} className={ACTION_CLASS}>
+                <Waypoints className="w-3 h-3 mr-1" />
+                Find similar
+              </button>
+            )}
+            {onCompare && (
+              <button onClick={onCompare} className={ACTION_CLASS}>
+                <Columns2 className="w-3 h-3 mr-1" />
+                Compare with…
+              </button>
+            )}
+            {onBetween && (
+              <button onClick={onBetween} className={ACTION_CLASS}>
+                <ArrowLeftRight className="w-3 h-3 mr-1" />
+                Between this and…
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState, useRef, useId } from "react";
+import { useRouter } from "next/navigation";
+import type { ArtworkItem } from "../lib/embeddings";
+import type { Collection } from "../lib/library";
+import ArtworkCard, { artworkHref } from "./ArtworkCard";
+
+interface ArtworkGridProps {
+  items: ArtworkItem[];
+  // Environment for details links; empty for the default one
+  env: string;
+  indexLabel?: (item: ArtworkItem) => string | undefined;
+  collection?: Collection;
+  onToggleCollection?: (item: ArtworkItem) => void;
+  onNearest?: (item: ArtworkItem) => void;
+  onCompare?: (item: ArtworkItem) => void;
+  onBetween?: (item: ArtworkItem) => void;
+  // While a compare or between pivot from this artwork waits for its second
+  // artwork, the other cards offer to be it
+  pickingFrom?: number;
+  onPick?: (item: ArtworkItem) => void;
+}
+
+// Result cards with one tab stop: arrow keys move between cards, Home and End
+// jump to the first and last, Enter opens the focused artwork's details and
+// "n" (either case) searches its nearest neighbors.
+export default function ArtworkGrid({
+  items,
+  env,
+  indexLabel,
+  collection,
+  onToggleCollection,
+  onNearest,
+  onCompare,
+  onBetween,
+  pickingFrom,
+  onPick,
+}: ArtworkGridProps) {
+  const router = useRouter();
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [focusedIndex, setFocusedIndex] = useState(0);
+  const hintId = useId();
+  const active = Math.min(focusedIndex, Math.max(0, items.length - 1));
+
+  const cards = () => Array.from(gridRef.current?.querySelectorAll<HTMLElement>('[data-artwork-card]') ?? []);
+
+  // Cards per row, from how many share the first card's row
+  const columns = () => {
+    const list = cards();
+    return Math.max(1, list.filter((card) => card.offsetTop === list[0]?.offsetTop).length);
+  };
+
+  const moveTo = (index: number) => {
+    const target = Math.min(Math.max(index, 0), items.length - 1);
+    setFocusedIndex(target);
+    cards()[target]?.focus();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLElement>, index: number, item: ArtworkItem) => {
+    // Keys pressed on the links and buttons inside a card keep their meaning
+    if (event.target !== event.currentTarget || event.altKey || event.ctrlKey || event.metaKey) {
+      return;
+    }
+
+    switch (event.key) {
+      case 'ArrowRight':
+        moveTo(index + 1);
+        break;
+      case 'ArrowLeft':
+        moveTo(index - 1);
+        break;
+      case 'ArrowDown':
+        moveTo(index + columns());
+        break;
+      case 'ArrowUp':
+        moveTo(index - columns());
+        break;
+      case 'Home':
+        moveTo(0);
+        break;
+      case 'End':
+        moveTo(items.length - 1);
+        break;
+      case 'Enter':
+        router.push(artworkHref(item.model_id, env));
+        break;
+      case 'n':
+      case 'N':
+        if (!onNearest) {
+          return;
+        }
+        onNearest(item);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <div>
+      <p id={hintId} className="text-xs text-gray-500 mb-2">
+        Arrow keys move between results, Enter opens details{onNearest ? ', N finds nearest neighbors' : ''}.
+      </p>
+      <div ref={gridRef} role="list" aria-label="Search results" className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+        {items.map((item, index) => (
+          <ArtworkCard
+            key={item.id}
+            item={item}
+            tabIndex={index === active ? 0 : -1}
+            onFocus={() => setFocusedIndex(index)}
+            onKeyDown={(event) => handleKeyDown(event, index, item)}
+            describedBy={hintId}
+            env={env}
+            index={indexLabel?.(item)}
+            collection={collection}
+            onToggleCollection={onToggleCollection ? () => onToggleCollection(item) : undefined}
+            onFindSimilar={onNearest ? () => onNearest(item) : undefined}
+            onCompare={onCompare ? () => onCompare(item) : undefined}
+            onBetween={onBetween ? () => onBetween(item) : undefined}
+            onPick={onPick && pickingFrom !== undefined && pickingFrom !== item.model_id ? () => onPick(item) : undefined}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+// @vitest-environment jsdom
+
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { axe } from 'vitest-axe';
+import { responseCache } from '../lib/cache';
+import { runEmbeddingsQuery, type EmbeddingsQuery } from '../lib/embeddings';
+import { proxiedPaths, stubFetch, type FetchStub } from '@/test/fetchStub';
+import ArtworkSearch from './ArtworkSearch';
+
+vi.mock('next/navigation', () => ({
+  useSearchParams: () => new URLSearchParams(window.location.search),
+  useRouter: () => ({ push: vi.fn() }),
+}));
+
+// Model ids of the result cards, in order
+async function resultIds() {
+  const list = await screen.findByRole('list', { name: /search results/i });
+  return within(list).getAllByRole('listitem').map((card) => card.getAttribute('aria-label'));
+}
+
+function renderSearch(url = '/') {
+  window.history.replaceState({}, '', url);
+  return render(<ArtworkSearch initialSearch={null} />);
+}
+
+async function chooseType(label: string) {
+  await userEvent.selectOptions(screen.getByLabelText('Search Type'), label);
+}
+
+async function search() {
+  await userEvent.click(screen.getByRole('button', { name: 'Search' }));
+}
+
+describe('ArtworkSearch', () => {
+  let stub: FetchStub;
+
+  beforeEach(async () => {
+    await responseCache.purge();
+    window.localStorage.clear();
+    stub = stubFetch();
+  });
+
+  describe('query forms', () => {
+    it('runs a semantic search', async () => {
+      renderSearch();
+      await userEvent.type(screen.getByLabelText('Search Query'), 'winter snow');
+      await search();
+
+      expect((await resultIds())[0]).toBe('Artwork 1002');
+      expect(proxiedPaths(stub)).toEqual(['/ai/v1/artworks/search?q=winter%20snow&limit=30']);
+      expect(screen.getByText('Showing 1–16 of 16 results')).toBeTruthy();
+    });
+
+    it('runs a nearest neighbor search', async () => {
+      renderSearch();
+      await chooseType('Nearest Neighbor');
+      await userEvent.type(screen.getByLabelText('Artwork ID'), '1001');
+      await search();
+
+      const ids = await resultIds();
+      expect(ids[0]).toBe('Artwork 1013');
+      expect(ids).not.toContain('Artwork 1001');
+      expect(proxiedPaths(stub)).toEqual(['/ai/v1/artworks/1001/nearest?limit=30']);
+    });
+
+    it('runs a compare search and shows the scores', async () => {
+      renderSearch();
+      await chooseType('Compare');
+      await userEvent.type(screen.getByLabelText('Artwork ID'), '1001');
+      await userEvent.type(screen.getByLabelText('Compare Artwork ID'), '1013');
+      await userEvent.selectOptions(screen.getByLabelText('Second Artwork Vector Type'), 'Image');
+      await search();
+
+      expect(await screen.findByText('text_image')).toBeTruthy();
+      expect(proxiedPaths(stub)).toContain('/ai/v1/text/artworks/1001/compare/image/artworks/1013');
+      expect(screen.getByRole('link', { name: 'Artwork 1013' })).toBeTruthy();
+    });
+
+    it('runs a between search', async () => {
+      renderSearch();
+      await chooseType('Between');
+      await userEvent.type(screen.getByLabelText('Artwork ID'), '1002');
+      await userEvent.type(screen.getByLabelText('Compare Artwork ID'), '1012');
+      await search();
+
+      const ids = await resultIds();
+      expect(ids).not.toContain('Artwork 1002');
+      expect(ids).not.toContain('Artwork 1012');
+      expect(proxiedPaths(stub)).toContain('/ai/v1/text/artworks/1002/between/artworks/1012');
+    });
+
+    it('runs an image search by URL', async () => {
+      renderSearch();
+      await chooseType('Image Search');
+      await userEvent.type(screen.getByLabelText('Image URL'), 'http://localhost:3000/api/mock/images/1006.svg');
+      await search();
+
+      expect((await resultIds())[0]).toBe('Artwork 1006');
+      const upload = stub.requests.find((request) => request.url.endsWith('/api/artwork/image'));
+      expect(upload?.method).toBe('POST');
+    });
+
+    it('runs an analogy search', async () => {
+      renderSearch();
+      await chooseType('Analogy (A − B + C)');
+      await userEvent.type(screen.getByLabelText('Artwork ID'), '1002');
+      await userEvent.click(screen.getByRole('button', { name: 'Add term' }));
+      await userEvent.type(screen.getByLabelText('Text'), 'summer');
+      await search();
+
+      expect(await resultIds()).not.toContain('Artwork 1002');
+      const [path] = proxiedPaths(stub);
+      expect(path).toMatch(/^\/ai\/v1\/artworks\/analogy\?terms=/);
+      expect(JSON.parse(new URLSearchParams(path!.split('?')[1]).get('terms')!)).toEqual([
+        { type: 'artwork', value: '1002', weight: 1 },
+        { type: 'text', value: 'summer', weight: 1 },
+      ]);
+    });
+
+    it('shows validation errors without calling the API', async () => {
+      renderSearch();
+      await chooseType('Compare');
+      await userEvent.type(screen.getByLabelText('Artwork ID'), '1001');
+      await search();
+
+      expect((await screen.findByRole('alert')).textContent).toContain('Both artwork IDs are required');
+      expect(proxiedPaths(stub)).toEqual([]);
+    });
+
+    it('reports API errors', async () => {
+      renderSearch();
+      await chooseType('Nearest Neighbor');
+      await userEvent.type(screen.getByLabelText('Artwork ID'), '9999');
+      await search();
+
+      expect((await screen.findByRole('alert')).textContent).toContain('Not found: Artwork 9999 not found');
+    });
+  });
+
+  describe('share links', () => {
+    it('puts the search in the URL and restores it from there', async () => {
+      const { unmount } = renderSearch();
+      await chooseType('Nearest Neighbor');
+      await userEvent.selectOptions(screen.getByLabelText('Results Per Page'), '10');
+      await userEvent.type(screen.getByLabelText('Artwork ID'), '1005');
+      await search();
+      const ids = await resultIds();
+
+      const shared = window.location.search;
+      expect(new URLSearchParams(shared).toString()).toBe('type=nearest_neighbor&id=1005&limit=10');
+      unmount();
+
+      renderSearch(`/${shared}`);
+      expect(await resultIds()).toEqual(ids);
+      expect(screen.getByText('Shared Search Loaded')).toBeTruthy();
+      expect((screen.getByLabelText('Search Type') as HTMLSelectElement).value).toBe('nearest_neighbor');
+      expect((screen.getByLabelText('Artwork ID') as HTMLInputElement).value).toBe('1005');
+      expect((screen.getByLabelText('Results Per Page') as HTMLSelectElement).value).toBe('10');
+      expect(proxiedPaths(stub)).toEqual([
+        '/ai/v1/artworks/1005/nearest?limit=10',
+        '/ai/v1/artworks/1005/nearest?limit=10',
+      ]);
+    });
+
+    it('copies the share link', async () => {
+      const user = userEvent.setup();
+      renderSearch();
+      await user.type(screen.getByLabelText('Search Query'), 'harbor');
+      await user.click(screen.getByRole('button', { name: 'Search' }));
+      await resultIds();
+
+      await user.click(screen.getByRole('button', { name: 'Copy Share Link' }));
+
+      expect(await screen.findByText('Share link copied to clipboard')).toBeTruthy();
+      expect(await navigator.clipboard.readText()).toBe(`${window.location.origin}/?type=semantic&q=harbor`);
+    });
+
+    it('pages through results and back', async () => {
+      renderSearch('/?type=semantic&q=city%20street&limit=10');
+      await resultIds();
+
+      await userEvent.click(screen.getByRole('button', { name: 'Next' }));
+      await waitFor(() => expect(screen.getByText('Showing 11–16 of 16 results')).toBeTruthy());
+      expect(new URLSearchParams(window.location.search).get('offset')).toBe('10');
+
+      window.history.back();
+      await waitFor(() => expect(screen.getByText('Showing 1–10 of 16 results')).toBeTruthy());
+    });
+
+    it('pages on from the results shown when the page size changed since', async () => {
+      renderSearch('/?type=semantic&q=city%20street&limit=5');
+      await resultIds();
+
+      await userEvent.selectOptions(screen.getByLabelText('Results Per Page'), '10');
+      await userEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+      await waitFor(() => expect(screen.getByText('Showing 6–15 of 16 results')).toBeTruthy());
+      expect(proxiedPaths(stub).at(-1)).toBe('/ai/v1/artworks/search?q=city%20street&limit=10&offset=5');
+    });
+  });
+
+  describe('results rendered on the server', () => {
+    async function initialSearch(query: EmbeddingsQuery) {
+      return { query, env: 'mock', result: await runEmbeddingsQuery(query, { env: 'mock' }) };
+    }
+
+    it('shows search results without fetching them again', async () => {
+      const initial = await initialSearch({ type: 'semantic', query: 'flowers garden', limit: 5 });
+      const before = proxiedPaths(stub).length;
+
+      window.history.replaceState({}, '', '/?type=semantic&q=flowers%20garden&limit=5');
+      render(<ArtworkSearch initialSearch={initial} />);
+
+      const ids = initial.result.kind === 'search' ? initial.result.data.items.map((item) => item.model_id) : [];
+      expect(ids).toHaveLength(5);
+      expect(await resultIds()).toEqual(ids.map((id) => `Artwork ${id}`));
+      expect(screen.getAllByRole('link', { name: 'Details' })[0].getAttribute('href')).toBe(`/artworks/${ids[0]}`);
+      expect(screen.getByText('Showing 1–5 of 16 results')).toBeTruthy();
+      expect(proxiedPaths(stub)).toHaveLength(before);
+    });
+
+    it('shows similarity results with both artworks', async () => {
+      const initial = await initialSearch({ type: 'compare', id: '1003', compareId: '1011', firstType: 'image', secondType: 'image' });
+
+      window.history.replaceState({}, '', '/?type=compare&id=1003&compareId=1011&firstArtworkType=image&secondArtworkType=image');
+      render(<ArtworkSearch initialSearch={initial} />);
+
+      const score = initial.result.kind === 'similarity' ? initial.result.data.similarity_scores[0] : null;
+      expect(score?.embedding_type).toBe('image');
+      expect(screen.getByText(score!.similarity_score.toFixed(4))).toBeTruthy();
+      expect(await screen.findByText(/Wheat Fields in Summer\./)).toBeTruthy();
+      expect(await screen.findByText(/Horses in a Meadow\./)).toBeTruthy();
+    });
+  });
+
+  describe('results', () => {
+    it('searches the focused artwork\'s nearest neighbors with n or N', async () => {
+      renderSearch('/?type=semantic&q=winter%20snow&limit=5');
+      const [first] = await resultIds();
+
+      screen.getByRole('listitem', { name: first! }).focus();
+      await userEvent.keyboard('N');
+
+      await waitFor(() => expect(proxiedPaths(stub).at(-1)).toBe(`/ai/v1/artworks/${first!.split(' ')[1]}/nearest?limit=5`));
+    });
+
+    it('has no accessibility violations', async () => {
+      const { container } = renderSearch('/?type=semantic&q=winter%20snow&limit=5');
+      await resultIds();
+
+      expect((await axe(container)).violations).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,758 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { RotateCcw, Search } from "lucide-react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import {
+  MAX_PAGE_SIZE,
+  type ComparisonType,
+  type ArtworkItem,
+  type QueryType,
+  type SearchModality,
+} from "../lib/embeddings";
+import { MAX_MATRIX_IDS } from "../lib/matrix";
+import { type AnalogyTerm } from "../lib/analogy";
+import { addHistory, describeSearch, toggleCollectionItem } from "../lib/library";
+import {
+  applyFilters,
+  computeFacets,
+  hasActiveFilters,
+  writeFilterParams,
+  type ResultFilters,
+} from "../lib/filters";
+import {
+  hasModality,
+  hasSearchParams,
+  isPaged,
+  isRunnable,
+  pivotState,
+  queryPage,
+  readSearchState,
+  stateToQuery,
+  writeSearchState,
+  type InitialSearch,
+  type ResultsView,
+  type SearchState,
+} from "../lib/searchState";
+import FacetPanel from "./FacetPanel";
+import ArtworkGrid from "./ArtworkGrid";
+import ComparisonView from "./ComparisonView";
+import EmbeddingMap from "./EmbeddingMap";
+import AnalogyBuilder from "./AnalogyBuilder";
+import EnvironmentSelect from "./EnvironmentSelect";
+import ExportMenu from "./ExportMenu";
+import ImageDropZone from "./ImageDropZone";
+import LibraryPanel from "./LibraryPanel";
+import PivotPicker from "./PivotPicker";
+import PivotTrail, { type PivotStep } from "./PivotTrail";
+import ResultsPager from "./ResultsPager";
+import Toasts from "./Toasts";
+import { useEnvironments } from "../hooks/useEnvironments";
+import { useEmbeddingsQuery, type QueryRun } from "../hooks/useEmbeddingsQuery";
+import { useLibrary } from "../hooks/useLibrary";
+import { useToasts } from "../hooks/useToasts";
+
+const PAGE_SIZES = [10, 30, 50, MAX_PAGE_SIZE];
+
+// Link to the similarity matrix for (up to the maximum number of) these artworks
+function matrixHref(items: ArtworkItem[], env: string) {
+  const params = new URLSearchParams({
+    ids: items.slice(0, MAX_MATRIX_IDS).map((item) => item.model_id).join(','),
+  });
+  if (env) {
+    params.set('env', env);
+  }
+  return `/matrix?${params.toString()}`;
+}
+
+interface ArtworkSearchProps {
+  initialSearch: InitialSearch | null;
+}
+
+// The search form and results. Search URLs are rendered on the server with
+// their results as `initialSearch`; everything after that runs in the browser.
+export default function ArtworkSearch({ initialSearch }: ArtworkSearchProps) {
+  const { environments, defaultEnvironment } = useEnvironments();
+  const searchParams = useSearchParams();
+  // The form starts out as the URL describes, so the server renders it filled in
+  const [defaults] = useState(() => readSearchState(new URLSearchParams(searchParams.toString())));
+  const [environment, setEnvironment] = useState(defaults.environment);
+  const [queryType, setQueryType] = useState<QueryType>(defaults.queryType);
+  const [searchQuery, setSearchQuery] = useState(defaults.searchQuery);
+  const [artworkId, setArtworkId] = useState(defaults.artworkId);
+  const [compareId, setCompareId] = useState(defaults.compareId);
+  const [imageFile, setImageFile] = useState<Blob | null>(null);
+  const [imageUrl, setImageUrl] = useState(defaults.imageUrl);
+  const [analogyTerms, setAnalogyTerms] = useState<AnalogyTerm[]>(defaults.analogyTerms);
+  const [comparisonType, setComparisonType] = useState<ComparisonType>(defaults.comparisonType);
+  const [firstArtworkType, setFirstArtworkType] = useState<ComparisonType>(defaults.firstArtworkType);
+  const [secondArtworkType, setSecondArtworkType] = useState<ComparisonType>(defaults.secondArtworkType);
+  const [modality, setModality] = useState<SearchModality>(defaults.modality);
+  const [imageWeight, setImageWeight] = useState(defaults.imageWeight);
+  const [sourceType, setSourceType] = useState<ComparisonType>(defaults.sourceType);
+  const [limit, setLimit] = useState(defaults.limit);
+  const [offset, setOffset] = useState(defaults.offset);
+  const [filters, setFilters] = useState<ResultFilters>(defaults.filters);
+  const [resultsView, setResultsView] = useState<ResultsView>(defaults.resultsView);
+  const [isSharedLink, setIsSharedLink] = useState(false);
+  const [currentSearch, setCurrentSearch] = useState('');
+  const [activeCollectionId, setActiveCollectionId] = useState('');
+  // A compare or between pivot from a result, waiting for its second artwork
+  const [pendingPivot, setPendingPivot] = useState<{ pivot: 'compare' | 'between'; fromId: number } | null>(null);
+  const [trail, setTrail] = useState<PivotStep[]>([]);
+  const { library, updateLibrary } = useLibrary();
+  const { toasts, dismissToast, copyShareLink } = useToasts();
+
+  const activeCollection = library.collections.find((collection) => collection.id === activeCollectionId)
+    ?? library.collections[0];
+
+  // Record each successful search in the history. The URL describes the
+  // search by now, except for uploaded images.
+  const handleSuccess = useCallback(({ query }: QueryRun) => {
+    const search = window.location.search.slice(1);
+    const shareable = !(query.type === 'image' && query.image);
+    setCurrentSearch(shareable ? search : '');
+    if (search && shareable) {
+      updateLibrary((current) => addHistory(current, search));
+    }
+  }, [updateLibrary]);
+
+  const { results, activeQuery, lastQuery, loading, error, debugUrl, run, reset } = useEmbeddingsQuery(handleSuccess, initialSearch);
+
+  const currentState = useMemo<SearchState>(() => ({
+    queryType,
+    searchQuery,
+    artworkId,
+    compareId,
+    imageUrl,
+    analogyTerms,
+    comparisonType,
+    firstArtworkType,
+    secondArtworkType,
+    modality,
+    imageWeight,
+    sourceType,
+    limit,
+    offset,
+    environment,
+    filters,
+    resultsView,
+  }), [queryType, searchQuery, artworkId, compareId, imageUrl, analogyTerms, comparisonType, firstArtworkType, secondArtworkType, modality, imageWeight, sourceType, limit, offset, environment, filters, resultsView]);
+
+  // Put the form state from the URL back into the form. A URL without an
+  // environment means the default one.
+  const applyState = useCallback((state: SearchState) => {
+    setQueryType(state.queryType);
+    setSearchQuery(state.searchQuery);
+    setArtworkId(state.artworkId);
+    setCompareId(state.compareId);
+    setImageUrl(state.imageUrl);
+    setAnalogyTerms(state.analogyTerms);
+    setComparisonType(state.comparisonType);
+    setFirstArtworkType(state.firstArtworkType);
+    setSecondArtworkType(state.secondArtworkType);
+    setModality(state.modality);
+    setImageWeight(state.imageWeight);
+    setSourceType(state.sourceType);
+    setLimit(state.limit);
+    setOffset(state.offset);
+    setEnvironment((current) => state.environment || defaultEnvironment || current);
+    setFilters(state.filters);
+    setResultsView(state.resultsView);
+  }, [defaultEnvironment]);
+
+  // Function to update URL with current search parameters
+  const updateUrl = useCallback((pageOffset = offset) => {
+    const params = writeSearchState(
+      { ...currentState, offset: pageOffset },
+      { defaultEnvironment, hasImageFile: !!imageFile }
+    );
+    const newUrl = `${window.location.pathname}?${params.toString()}`;
+    window.history.pushState({ path: newUrl }, '', newUrl);
+  }, [currentState, offset, defaultEnvironment, imageFile]);
+
+  // Restore the form and results for the current URL: on first load and on
+  // back/forward. An uploaded image can't be in the URL, so the one still in
+  // the form is used.
+  const restoreFromUrl = useCallback((image: Blob | null) => {
+    const state = readSearchState(new URLSearchParams(window.location.search));
+    applyState(state);
+
+    if (isRunnable(state, image)) {
+      run(stateToQuery(state, image), state.environment);
+    } else {
+      reset();
+    }
+  }, [applyState, run, reset]);
+
+  // Show a search in the form, push it to the URL and run it from there, so
+  // what runs is always what the URL describes
+  const startSearch = useCallback((state: SearchState, image: Blob | null = null) => {
+    applyState(state);
+    const params = writeSearchState(state, { defaultEnvironment, hasImageFile: !!image });
+    const newUrl = `${window.location.pathname}?${params.toString()}`;
+    window.history.pushState({ path: newUrl }, '', newUrl);
+
+    const pushed = readSearchState(params);
+    run(stateToQuery(pushed, image), pushed.environment);
+    return params.toString();
+  }, [applyState, defaultEnvironment, run]);
+
+  // A new search starts from the first page; paging passes its own offset
+  const handleSearch = useCallback((pageOffset = 0) => {
+    startSearch({ ...currentState, offset: pageOffset }, imageFile);
+  }, [startSearch, currentState, imageFile]);
+
+  // A search from the form starts a new pivot trail
+  const handleNewSearch = () => {
+    setTrail([]);
+    setPendingPivot(null);
+    handleSearch();
+  };
+
+  // Run a pivot from a result card and add it to the trail after the search
+  // it was made from, dropping any steps that had come after that one
+  const pivotTo = useCallback((state: SearchState) => {
+    const from = window.location.search.slice(1);
+    setPendingPivot(null);
+    const search = startSearch(state);
+    setTrail((current) => {
+      const index = current.findIndex((step) => step.search === from);
+      const base = index >= 0 ? current.slice(0, index + 1) : [{ search: from, label: describeSearch(from) }];
+      return [...base, { search, label: describeSearch(search) }];
+    });
+  }, [startSearch]);
+
+  const handleNearest = useCallback((item: ArtworkItem) => {
+    pivotTo(pivotState(currentState, 'nearest_neighbor', item.model_id));
+  }, [pivotTo, currentState]);
+
+  const handlePick = (otherId: number) => {
+    if (pendingPivot) {
+      pivotTo(pivotState(currentState, pendingPivot.pivot, pendingPivot.fromId, otherId));
+    }
+  };
+
+  // Go back to an earlier step of the trail
+  const handleTrailSelect = (index: number) => {
+    setPendingPivot(null);
+    setTrail((current) => current.slice(0, index + 1));
+    startSearch(readSearchState(new URLSearchParams(trail[index].search)));
+  };
+
+  // Filters only narrow the results already loaded, so they replace the
+  // current history entry rather than pushing a new search
+  const handleFiltersChange = (next: ResultFilters) => {
+    setFilters(next);
+
+    const params = new URLSearchParams(window.location.search);
+    writeFilterParams(params, next);
+    const newUrl = `${window.location.pathname}?${params.toString()}`;
+    window.history.replaceState({ path: newUrl }, '', newUrl);
+  };
+
+  // Like filters, switching views only changes how the loaded results are shown
+  const handleViewChange = (view: ResultsView) => {
+    setResultsView(view);
+
+    const params = new URLSearchParams(window.location.search);
+    if (view === 'grid') {
+      params.delete('view');
+    } else {
+      params.set('view', view);
+    }
+    const newUrl = `${window.location.pathname}?${params.toString()}`;
+    window.history.replaceState({ path: newUrl }, '', newUrl);
+  };
+
+  // Paging moves on from the results shown, not from page size changes in
+  // the form that haven't been searched yet
+  const activePage = activeQuery ? queryPage(activeQuery.query) : { limit, offset };
+
+  const searchItems = results?.kind === 'search' ? results.data.items : null;
+  const facets = useMemo(() => computeFacets(searchItems ?? []), [searchItems]);
+  const filteredItems = useMemo(() => applyFilters(searchItems ?? [], filters), [searchItems, filters]);
+
+  // Exports hold what's on screen: only the results matching active filters
+  const exportResult = useMemo(() => {
+    if (results?.kind !== 'search' || !hasActiveFilters(filters)) {
+      return results;
+    }
+    return { ...results, data: { ...results.data, items: filteredItems, count: filteredItems.length } };
+  }, [results, filters, filteredItems]);
+
+  // Announced to screen readers when a search starts and finishes; errors
+  // are announced by their alert
+  let announcement = '';
+  if (loading) {
+    announcement = 'Searching…';
+  } else if (results?.kind === 'search') {
+    const { count, total } = results.data;
+    announcement = hasActiveFilters(filters)
+      ? `${filteredItems.length} of ${count} results match the active filters`
+      : `Showing ${count} of ${total ?? count} results`;
+  } else if (results) {
+    announcement = 'Comparison loaded';
+  }
+
+  // Handle Enter key press in input fields
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleNewSearch();
+    }
+  };
+
+  const handleCopyShareLink = () => {
+    // Always update the URL before copying to ensure it reflects the current state
+    updateUrl();
+    copyShareLink();
+  };
+
+  // Load parameters from URL only on initial render
+  useEffect(() => {
+    setIsSharedLink(hasSearchParams(new URLSearchParams(searchParams.toString())));
+    if (initialSearch) {
+      handleSuccess(initialSearch);
+    } else {
+      restoreFromUrl(null);
+    }
+  // Only run this effect once on mount - empty dependency array
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Back/forward through searches pushed by updateUrl re-runs them
+  useEffect(() => {
+    const handlePopState = () => restoreFromUrl(imageFile);
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [restoreFromUrl, imageFile]);
+
+  // Select the default environment once the allowlist has loaded
+  useEffect(() => {
+    setEnvironment((current) => current || defaultEnvironment);
+  }, [defaultEnvironment]);
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-8">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-3xl font-bold text-white-900">Artwork Search</h1>
+          {isSharedLink && (
+            <div className="flex items-center gap-2">
+              <div className="bg-blue-100 text-blue-800 px-3 py-1 rounded-full text-sm font-medium">
+                Shared Search Loaded
+              </div>
+              <button
+                onClick={() => {
+                  // Clear the URL but keep the current form values
+                  window.history.pushState({}, '', window.location.pathname);
+                  setIsSharedLink(false);
+                }}
+                className="text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded-full"
+              >
+                Clear URL
+              </button>
+            </div>
+          )}
+        </div>
+
+        <nav className="flex gap-4 text-sm mb-6">
+          <Link href="/matrix" className="text-blue-600 hover:underline">Similarity Matrix</Link>
+          <Link href="/explore" className="text-blue-600 hover:underline">Explore Neighbors</Link>
+          <Link href="/ab" className="text-blue-600 hover:underline">A/B Comparison</Link>
+          <Link href="/evaluate" className="text-blue-600 hover:underline">Evaluate Search</Link>
+        </nav>
+
+        <div className="mb-6">
+          <EnvironmentSelect environments={environments} value={environment} onChange={setEnvironment} />
+        </div>
+
+        <div className="space-y-4 mb-6">
+          <div>
+            <label htmlFor="query-type" className="block text-sm font-medium mb-2 text-white-900">Search Type</label>
+            <select
+              id="query-type"
+              value={queryType}
+              onChange={(e) => setQueryType(e.target.value as QueryType)}
+              className="w-full p-2 border rounded-lg text-gray-900"
+            >
+              <option value="semantic">Semantic Search</option>
+              <option value="nearest_neighbor">Nearest Neighbor</option>
+              <option value="compare">Compare</option>
+              <option value="between">Between</option>
+              <option value="image">Image Search</option>
+              <option value="analogy">Analogy (A − B + C)</option>
+            </select>
+          </div>
+
+          {isPaged(queryType) && (
+            <div>
+              <label htmlFor="page-size" className="block text-sm font-medium mb-2 text-white-900">Results Per Page</label>
+              <select
+                id="page-size"
+                value={limit}
+                onChange={(e) => setLimit(parseInt(e.target.value, 10))}
+                className="w-full p-2 border rounded-lg text-gray-900"
+              >
+                {[...new Set([...PAGE_SIZES, limit])].sort((a, b) => a - b).map((size) => (
+                  <option key={size} value={size}>{size}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {hasModality(queryType) && (
+            <div className="space-y-4">
+              <div className={`grid gap-4 ${queryType === 'nearest_neighbor' && modality !== 'default' ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                <div>
+                  <label htmlFor="search-index" className="block text-sm font-medium mb-2 text-white-900">Search Index</label>
+                  <select
+                    id="search-index"
+                    value={modality}
+                    onChange={(e) => setModality(e.target.value as SearchModality)}
+                    className="w-full p-2 border rounded-lg text-gray-900"
+                  >
+                    <option value="default">Default</option>
+                    <option value="text">Text vectors</option>
+                    <option value="image">Image vectors</option>
+                    <option value="hybrid">Hybrid (text + image)</option>
+                  </select>
+                </div>
+                {queryType === 'nearest_neighbor' && modality !== 'default' && (
+                  <div>
+                    <label htmlFor="source-type" className="block text-sm font-medium mb-2 text-white-900">Artwork Vector Type</label>
+                    <select
+                      id="source-type"
+                      value={sourceType}
+                      onChange={(e) => setSourceType(e.target.value as ComparisonType)}
+                      className="w-full p-2 border rounded-lg text-gray-900"
+                    >
+                      <option value="text">Text</option>
+                      <option value="image">Image</option>
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              {modality === 'hybrid' && (
+                <div>
+                  <label htmlFor="image-weight" className="block text-sm font-medium mb-2 text-white-900">
+                    Image Weight: {imageWeight.toFixed(2)}
+                  </label>
+                  <input
+                    id="image-weight"
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={imageWeight}
+                    onChange={(e) => setImageWeight(parseFloat(e.target.value))}
+                    className="w-full"
+                  />
+                  <div className="flex justify-between text-xs text-gray-500">
+                    <span>Text only</span>
+                    <span>Image only</span>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            {queryType === 'semantic' && (
+              <div>
+                <label htmlFor="search-query" className="block text-sm font-medium mb-2 text-white-900">Search Query</label>
+                <input
+                  id="search-query"
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder="Enter search terms..."
+                  className="w-full p-2 border rounded-lg text-gray-900"
+                />
+              </div>
+            )}
+
+            {queryType === 'analogy' && (
+              <AnalogyBuilder terms={analogyTerms} onChange={setAnalogyTerms} />
+            )}
+
+            {queryType === 'image' && (
+              <ImageDropZone
+                image={imageFile}
+                imageUrl={imageUrl}
+                onImageChange={setImageFile}
+                onImageUrlChange={setImageUrl}
+              />
+            )}
+
+            {(queryType === 'nearest_neighbor' || queryType === 'compare' || queryType === 'between') && (
+              <div>
+                <label htmlFor="artwork-id" className="block text-sm font-medium mb-2 text-white-900">Artwork ID</label>
+                <input
+                  id="artwork-id"
+                  type="text"
+                  value={artworkId}
+                  onChange={(e) => setArtworkId(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder="Enter artwork ID..."
+                  className="w-full p-2 border rounded-lg text-gray-900"
+                />
+              </div>
+            )}
+
+            {(queryType === 'compare' || queryType === 'between') && (
+              <>
+                <div>
+                  <label htmlFor="compare-id" className="block text-sm font-medium mb-2 text-white-900">Compare Artwork ID</label>
+                  <input
+                    id="compare-id"
+                    type="text"
+                    value={compareId}
+                    onChange={(e) => setCompareId(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Enter comparison artwork ID..."
+                    className="w-full p-2 border rounded-lg text-gray-900"
+                  />
+                </div>
+
+                {queryType === 'compare' ? (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="first-type" className="block text-sm font-medium mb-2 text-white-900">First Artwork Vector Type</label>
+                      <select
+                        id="first-type"
+                        value={firstArtworkType}
+                        onChange={(e) => setFirstArtworkType(e.target.value as ComparisonType)}
+                        className="w-full p-2 border rounded-lg text-gray-900"
+                      >
+                        <option value="text">Text</option>
+                        <option value="image">Image</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="second-type" className="block text-sm font-medium mb-2 text-white-900">Second Artwork Vector Type</label>
+                      <select
+                        id="second-type"
+                        value={secondArtworkType}
+                        onChange={(e) => setSecondArtworkType(e.target.value as ComparisonType)}
+                        className="w-full p-2 border rounded-lg text-gray-900"
+                      >
+                        <option value="text">Text</option>
+                        <option value="image">Image</option>
+                      </select>
+                    </div>
+                  </div>
+                ) : (
+                  <div>
+                    <label htmlFor="comparison-type" className="block text-sm font-medium mb-2 text-white-900">Comparison Type</label>
+                    <select
+                      id="comparison-type"
+                      value={comparisonType}
+                      onChange={(e) => setComparisonType(e.target.value as ComparisonType)}
+                      className="w-full p-2 border rounded-lg text-gray-900"
+                    >
+                      <option value="text">Text</option>
+                      <option value="image">Image</option>
+                    </select>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <button
+            onClick={handleNewSearch}
+            disabled={loading}
+            className="flex items-center justify-center w-full p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-blue-300"
+          >
+            {loading ? (
+              'Searching...'
+            ) : (
+              <>
+                <Search className="w-4 h-4 mr-2" />
+                Search
+              </>
+            )}
+          </button>
+        </div>
+
+        <LibraryPanel
+          library={library}
+          updateLibrary={updateLibrary}
+          currentSearch={currentSearch}
+          activeCollectionId={activeCollection?.id ?? ''}
+          onActiveCollectionChange={setActiveCollectionId}
+          env={environment && environment !== defaultEnvironment ? environment : ''}
+        />
+
+        {debugUrl && (
+          <div className="mb-4 p-4 bg-gray-100 rounded-lg">
+            <div className="flex justify-between items-center">
+              <div>
+                <p className="text-sm font-medium mb-1 text-gray-900">Request URL:</p>
+                <code className="text-sm break-all whitespace-pre-line text-gray-900">{debugUrl}</code>
+              </div>
+              <button
+                onClick={handleCopyShareLink}
+                className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 flex items-center"
+              >
+                Copy Share Link
+              </button>
+            </div>
+            {exportResult && activeQuery && (
+              <div className="mt-3">
+                <ExportMenu
+                  result={exportResult}
+                  metadata={{
+                    query: activeQuery.query,
+                    env: activeQuery.env,
+                    apiUrl: debugUrl,
+                    filtered: hasActiveFilters(filters) && exportResult.kind === 'search',
+                  }}
+                  search={currentSearch}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
+        {error && (
+          <div role="alert" className="flex justify-between items-center gap-4 text-red-600 p-4 rounded-lg bg-red-50 mb-4">
+            <span>{error.message}</span>
+            {error.retryable && lastQuery && (
+              <button
+                onClick={() => run(lastQuery.query, lastQuery.env)}
+                disabled={loading}
+                className="flex items-center flex-shrink-0 px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:bg-blue-300"
+              >
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Retry
+              </button>
+            )}
+          </div>
+        )}
+
+        {(trail.length > 1 || pendingPivot) && (
+          <div className="space-y-3 mb-4">
+            {trail.length > 1 && <PivotTrail steps={trail} current={currentSearch} onSelect={handleTrailSelect} />}
+            {pendingPivot && (
+              <PivotPicker
+                pivot={pendingPivot.pivot}
+                fromId={pendingPivot.fromId}
+                pinned={activeCollection?.artworks ?? []}
+                collectionName={activeCollection?.name}
+                onPick={handlePick}
+                onCancel={() => setPendingPivot(null)}
+              />
+            )}
+          </div>
+        )}
+
+        {loading && <ResultsSkeleton count={isPaged(lastQuery?.query.type ?? queryType) ? Math.min(limit, 6) : 1} />}
+
+        {results && (
+          <div className="space-y-6">
+            {activeQuery && (activeQuery.query.type === 'compare' || activeQuery.query.type === 'between') && (
+              <ComparisonView
+                firstId={activeQuery.query.id.trim()}
+                secondId={activeQuery.query.compareId.trim()}
+                scores={results.kind === 'similarity' ? results.data.similarity_scores : undefined}
+                env={activeQuery.env}
+              />
+            )}
+
+            {results.kind === 'search' && (
+              <>
+                <ResultsPager
+                  results={results.data}
+                  offset={activePage.offset}
+                  limit={activePage.limit}
+                  loading={loading}
+                  onPageChange={(pageOffset) => handleSearch(pageOffset)}
+                />
+
+                <div className="flex flex-col md:flex-row gap-6">
+                  <FacetPanel facets={facets} filters={filters} onChange={handleFiltersChange} />
+
+                  <div className="flex-1 space-y-4">
+                    <div className="flex gap-2">
+                      {(['grid', 'map'] as const).map((view) => (
+                        <button
+                          key={view}
+                          onClick={() => handleViewChange(view)}
+                          className={`px-3 py-1 text-sm rounded ${resultsView === view ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+                        >
+                          {view === 'grid' ? 'Grid' : 'Map'}
+                        </button>
+                      ))}
+                    </div>
+
+                    <div className="flex justify-between items-center text-sm text-gray-900">
+                      <span>
+                        {hasActiveFilters(filters) &&
+                          `${filteredItems.length} of ${results.data.items.length} results on this page match the active filters`}
+                      </span>
+                      {filteredItems.length > 1 && (
+                        <Link href={matrixHref(filteredItems, activeQuery?.env ?? '')} className="text-blue-600 hover:underline">
+                          {filteredItems.length > MAX_MATRIX_IDS
+                            ? `Open top ${MAX_MATRIX_IDS} in similarity matrix`
+                            : 'Open in similarity matrix'}
+                        </Link>
+                      )}
+                    </div>
+
+                    {resultsView === 'map' ? (
+                      <EmbeddingMap items={filteredItems} env={activeQuery?.env ?? ''} />
+                    ) : (
+                      <ArtworkGrid
+                        items={filteredItems}
+                        env={environment !== defaultEnvironment ? environment : ''}
+                        indexLabel={results.modality && results.modality !== 'default'
+                          ? (item) => results.matches?.[item.model_id]?.join(' + ') ?? results.modality
+                          : undefined}
+                        collection={activeCollection}
+                        onToggleCollection={activeCollection
+                          ? (item) => updateLibrary((current) => toggleCollectionItem(current, activeCollection.id, item))
+                          : undefined}
+                        onNearest={handleNearest}
+                        onCompare={(item) => setPendingPivot({ pivot: 'compare', fromId: item.model_id })}
+                        onBetween={(item) => setPendingPivot({ pivot: 'between', fromId: item.model_id })}
+                        pickingFrom={pendingPivot?.fromId}
+                        onPick={(item) => handlePick(item.model_id)}
+                      />
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      <Toasts toasts={toasts} onDismiss={dismissToast} />
+    </div>
+  );
+}
+
+// Placeholder cards shown while a search is in flight
+function ResultsSkeleton({ count }: { count: number }) {
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6" aria-hidden="true">
+      {Array.from({ length: count }, (_, index) => (
+        <div key={index} className="border rounded-lg overflow-hidden bg-white p-4 animate-pulse">
+          <div className="w-full h-48 bg-gray-200 rounded" />
+          <div className="h-4 w-1/3 bg-gray-200 rounded mt-4" />
+          <div className="h-3 w-full bg-gray-200 rounded mt-3" />
+          <div className="h-3 w-5/6 bg-gray-200 rounded mt-2" />
+          <div className="h-3 w-1/4 bg-gray-200 rounded mt-4" />
+        </div>
+      ))}
+    </div>
+  );
+}
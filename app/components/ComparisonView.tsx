@@ -0,0 +1,137 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { getArtwork, type ArtworkItem, type SimilarityScore } from "../lib/embeddings";
+import { analysisData, compareTags } from "../lib/vision";
+
+interface ComparisonViewProps {
+  firstId: string;
+  secondId: string;
+  scores?: SimilarityScore[];
+  env: string;
+}
+
+// Tags below this confidence are left out of the shared/distinct lists
+const TAG_CONFIDENCE = 0.5;
+
+function ScoreGauge({ score }: { score: SimilarityScore }) {
+  // Cosine similarity is in [-1, 1], but in practice these stay positive
+  const percent = Math.max(0, Math.min(1, score.similarity_score)) * 100;
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="font-medium">{score.embedding_type}</span>
+        <span className="text-blue-600">{score.similarity_score.toFixed(4)}</span>
+      </div>
+      <div className="h-3 w-full bg-gray-200 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+}
+
+function ArtworkPanel({ id, artwork, error, env }: { id: string; artwork?: ArtworkItem; error?: string; env: string }) {
+  const analysis = artwork ? analysisData(artwork) : undefined;
+  const imageUrl = artwork?.image_embedding_data?.image_url || artwork?.data?.image_url;
+
+  return (
+    <div className="flex-1 border rounded-lg p-4 bg-white space-y-2">
+      <div className="text-sm font-medium">
+        <Link
+          href={`/artworks/${encodeURIComponent(id)}${env ? `?env=${encodeURIComponent(env)}` : ''}`}
+          className="text-blue-600 hover:underline"
+        >
+          Artwork {id}
+        </Link>
+      </div>
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {!artwork && !error && <div className="text-sm text-gray-500">Loading artwork...</div>}
+      {imageUrl && (
+        <Image
+          src={imageUrl}
+          alt={analysis?.caption || artwork?.data.description?.slice(0, 100) || "Artwork image"}
+          className="w-full h-auto object-contain"
+          width={400}
+          height={300}
+          unoptimized
+        />
+      )}
+      {analysis?.caption && (
+        <p className="text-sm"><b>Caption:</b> {analysis.caption}</p>
+      )}
+      {artwork?.data.description && (
+        <p className="text-sm"><b>Description:</b> {artwork.data.description}</p>
+      )}
+    </div>
+  );
+}
+
+function TagList({ title, tags, className }: { title: string; tags: string[]; className: string }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-1">{title} ({tags.length})</h3>
+      <ul className="flex flex-wrap gap-1">
+        {tags.map((tag) => (
+          <li key={tag} className={`rounded-full px-2 py-0.5 text-xs ${className}`}>{tag}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Both artworks of a compare/between query next to each other, with a gauge
+// per embedding type and the vision tags they share or don't.
+export default function ComparisonView({ firstId, secondId, scores, env }: ComparisonViewProps) {
+  const [artworks, setArtworks] = useState<Record<string, ArtworkItem>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setArtworks({});
+    setErrors({});
+
+    [firstId, secondId].forEach((id) => {
+      getArtwork(id, { env })
+        .then(({ item }) => setArtworks((current) => ({ ...current, [id]: item })))
+        .catch((err) => {
+          setErrors((current) => ({ ...current, [id]: err instanceof Error ? err.message : 'Failed to load artwork' }));
+          console.error('Artwork error:', err);
+        });
+    });
+  }, [firstId, secondId, env]);
+
+  const first = artworks[firstId];
+  const second = artworks[secondId];
+  const tags = first && second ? compareTags(first, second, TAG_CONFIDENCE) : null;
+
+  return (
+    <div className="space-y-4 text-gray-900">
+      <div className="flex flex-col md:flex-row gap-4">
+        <ArtworkPanel id={firstId} artwork={first} error={errors[firstId]} env={env} />
+        <ArtworkPanel id={secondId} artwork={second} error={errors[secondId]} env={env} />
+      </div>
+
+      {scores && scores.length > 0 && (
+        <div className="border rounded-lg p-4 bg-white space-y-3">
+          <h2 className="text-xl font-semibold">Similarity Scores</h2>
+          {scores.map((score, index) => (
+            <ScoreGauge key={index} score={score} />
+          ))}
+        </div>
+      )}
+
+      {tags && (
+        <div className="border rounded-lg p-4 bg-white space-y-3">
+          <h2 className="text-xl font-semibold">Vision Tags</h2>
+          <TagList title="Shared" tags={tags.shared} className="bg-green-100 text-green-800" />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <TagList title={`Only in ${firstId}`} tags={tags.onlyFirst} className="bg-gray-100" />
+            <TagList title={`Only in ${secondId}`} tags={tags.onlySecond} className="bg-gray-100" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
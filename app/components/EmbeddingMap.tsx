@@ -0,0 +1,231 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useRouter } from "next/navigation";
+import type { ArtworkItem } from "../lib/embeddings";
+import {
+  PROJECTION_METHODS,
+  embeddingVector,
+  type Point,
+  type ProjectionMethod,
+  type ProjectionResponse,
+} from "../lib/projection";
+
+interface EmbeddingMapProps {
+  items: ArtworkItem[];
+  env: string;
+}
+
+const WIDTH = 900;
+const HEIGHT = 600;
+const PADDING = 40;
+const THUMBNAIL_SIZE = 36;
+
+// Scale projected points into the SVG viewport
+function fitPoints(points: Point[]): Point[] {
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const [minX, maxX] = [Math.min(...xs), Math.max(...xs)];
+  const [minY, maxY] = [Math.min(...ys), Math.max(...ys)];
+  const scale = Math.min(
+    (WIDTH - 2 * PADDING) / (maxX - minX || 1),
+    (HEIGHT - 2 * PADDING) / (maxY - minY || 1)
+  );
+
+  return points.map(([x, y]) => [
+    PADDING + (x - minX) * scale,
+    PADDING + (y - minY) * scale,
+  ]);
+}
+
+// Result set projected into 2D, drawn as thumbnails that can be panned,
+// zoomed and clicked through to the artwork detail page.
+export default function EmbeddingMap({ items, env }: EmbeddingMapProps) {
+  const router = useRouter();
+  const [method, setMethod] = useState<ProjectionMethod>('pca');
+  const [points, setPoints] = useState<Point[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState({ x: 0, y: 0, zoom: 1 });
+  const [hovered, setHovered] = useState<number | null>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+
+  const mapped = useMemo(() => {
+    const withVectors = items
+      .map((item) => ({ item, vector: embeddingVector(item) }))
+      .filter((entry): entry is { item: ArtworkItem; vector: number[] } => entry.vector !== null);
+
+    // Vectors of a different length (e.g. mixed embedding types) can't share a space
+    const dims = withVectors[0]?.vector.length;
+    return withVectors.filter((entry) => entry.vector.length === dims);
+  }, [items]);
+
+  useEffect(() => {
+    setPoints(null);
+    setError(null);
+
+    if (mapped.length < 2) {
+      return;
+    }
+
+    const worker = new Worker(new URL('../lib/projection.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<ProjectionResponse>) => {
+      if ('error' in event.data) {
+        setError(event.data.error);
+      } else {
+        setPoints(fitPoints(event.data.points));
+        setView({ x: 0, y: 0, zoom: 1 });
+      }
+    };
+    worker.onerror = (event) => {
+      setError(event.message || 'Projection failed');
+    };
+    worker.postMessage({ method, vectors: mapped.map((entry) => entry.vector) });
+
+    return () => worker.terminate();
+  }, [mapped, method]);
+
+  // Zoom around the cursor; React's onWheel is passive, so attach it directly
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) {
+      return;
+    }
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const cursorX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+      const cursorY = ((e.clientY - rect.top) / rect.height) * HEIGHT;
+
+      setView((current) => {
+        const zoom = Math.min(20, Math.max(0.5, current.zoom * (e.deltaY < 0 ? 1.2 : 1 / 1.2)));
+        const factor = zoom / current.zoom;
+        return {
+          zoom,
+          x: cursorX - (cursorX - current.x) * factor,
+          y: cursorY - (cursorY - current.y) * factor,
+        };
+      });
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [points]);
+
+  const openArtwork = (item: ArtworkItem) => {
+    router.push(`/artworks/${item.model_id}${env ? `?env=${encodeURIComponent(env)}` : ''}`);
+  };
+
+  if (mapped.length < 2) {
+    return (
+      <div className="text-sm text-gray-900 p-4 border rounded-lg bg-white">
+        These results don&apos;t include enough embedding vectors to draw a map.
+      </div>
+    );
+  }
+
+  const hoveredItem = hovered !== null ? mapped[hovered].item : null;
+
+  return (
+    <div className="space-y-2 text-gray-900">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="flex gap-2">
+          {PROJECTION_METHODS.map((entry) => (
+            <button
+              key={entry.method}
+              onClick={() => setMethod(entry.method)}
+              className={`px-3 py-1 text-sm rounded ${method === entry.method ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+            >
+              {entry.label}
+            </button>
+          ))}
+          <button
+            onClick={() => setView({ x: 0, y: 0, zoom: 1 })}
+            className="px-3 py-1 text-sm rounded bg-gray-200 text-gray-700 hover:bg-gray-300"
+          >
+            Reset view
+          </button>
+        </div>
+        <div className="text-sm">
+          {hoveredItem
+            ? `${hoveredItem.model_id}: ${hoveredItem.data.description?.slice(0, 80) || ''}`
+            : `${mapped.length} of ${items.length} results mapped. Scroll to zoom, drag to pan.`}
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-red-600 p-4 rounded-lg bg-red-50">
+          {error}
+        </div>
+      )}
+
+      <div className="border rounded-lg bg-white overflow-hidden">
+        {!points && !error && (
+          <div className="flex items-center justify-center h-40 text-sm">Projecting embeddings...</div>
+        )}
+        {points && (
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-auto cursor-grab active:cursor-grabbing select-none"
+            onMouseDown={(e) => { dragRef.current = { x: e.clientX, y: e.clientY }; }}
+            onMouseMove={(e) => {
+              if (!dragRef.current || !svgRef.current) {
+                return;
+              }
+              const rect = svgRef.current.getBoundingClientRect();
+              const dx = ((e.clientX - dragRef.current.x) / rect.width) * WIDTH;
+              const dy = ((e.clientY - dragRef.current.y) / rect.height) * HEIGHT;
+              dragRef.current = { x: e.clientX, y: e.clientY };
+              setView((current) => ({ ...current, x: current.x + dx, y: current.y + dy }));
+            }}
+            onMouseUp={() => { dragRef.current = null; }}
+            onMouseLeave={() => { dragRef.current = null; }}
+          >
+            <g transform={`translate(${view.x} ${view.y}) scale(${view.zoom})`}>
+              {points.map(([x, y], index) => {
+                const { item } = mapped[index];
+                const size = THUMBNAIL_SIZE / Math.sqrt(view.zoom);
+
+                return (
+                  <g
+                    key={item.id}
+                    className="cursor-pointer"
+                    onClick={() => openArtwork(item)}
+                    onMouseEnter={() => setHovered(index)}
+                    onMouseLeave={() => setHovered(null)}
+                  >
+                    {item.data?.image_url ? (
+                      <image
+                        href={item.data.image_url}
+                        x={x - size / 2}
+                        y={y - size / 2}
+                        width={size}
+                        height={size}
+                        preserveAspectRatio="xMidYMid slice"
+                      />
+                    ) : (
+                      <circle cx={x} cy={y} r={size / 4} fill="#2563eb" />
+                    )}
+                    {hovered === index && (
+                      <rect
+                        x={x - size / 2}
+                        y={y - size / 2}
+                        width={size}
+                        height={size}
+                        fill="none"
+                        stroke="#2563eb"
+                        strokeWidth={2 / view.zoom}
+                      />
+                    )}
+                  </g>
+                );
+              })}
+            </g>
+          </svg>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useId } from "react";
+import type { ApiEnvironment } from "../lib/environments";
+
+interface EnvironmentSelectProps {
+  environments: ApiEnvironment[];
+  value: string;
+  onChange: (value: string) => void;
+  label?: string;
+}
+
+export default function EnvironmentSelect({ environments, value, onChange, label = 'API Environment' }: EnvironmentSelectProps) {
+  const id = useId();
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium mb-2 text-white-900">{label}</label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full p-2 border rounded-lg text-gray-900"
+      >
+        {environments.length === 0 && (
+          <option value={value}>{value || 'Loading environments...'}</option>
+        )}
+        {environments.map((env) => (
+          <option key={env.id} value={env.id}>
+            {env.label} ({env.baseUrl})
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
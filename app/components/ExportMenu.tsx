@@ -0,0 +1,69 @@
+"use client";
+
+import { Download } from "lucide-react";
+import type { EmbeddingsResult } from "../lib/embeddings";
+import { downloadFile } from "../lib/download";
+import {
+  resultsToCsv,
+  resultsToIiifManifest,
+  resultsToJson,
+  type ExportFormat,
+  type ExportMetadata,
+} from "../lib/export";
+
+interface ExportMenuProps {
+  result: EmbeddingsResult;
+  metadata: Omit<ExportMetadata, 'shareUrl'>;
+  // Query string of the share link for these results
+  search: string;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  iiif: 'IIIF Manifest',
+};
+
+export default function ExportMenu({ result, metadata: baseMetadata, search }: ExportMenuProps) {
+  // Similarity results have no images to put in a manifest
+  const formats: ExportFormat[] = result.kind === 'search' ? ['csv', 'json', 'iiif'] : ['csv', 'json'];
+  const basename = `${baseMetadata.query?.type ?? 'search'}-results`;
+
+  const handleExport = (format: ExportFormat) => {
+    const metadata = { ...baseMetadata, shareUrl: `${window.location.origin}/${search ? `?${search}` : ''}` };
+
+    switch (format) {
+      case 'csv':
+        downloadFile(`${basename}.csv`, resultsToCsv(result, metadata), 'text/csv');
+        break;
+      case 'json':
+        downloadFile(`${basename}.json`, resultsToJson(result, metadata), 'application/json');
+        break;
+      case 'iiif':
+        if (result.kind === 'search') {
+          downloadFile(
+            `${basename}-manifest.json`,
+            resultsToIiifManifest(result.data, metadata, window.location.origin),
+            'application/ld+json'
+          );
+        }
+        break;
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-gray-900">Export:</span>
+      {formats.map((format) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          className="flex items-center text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded-full"
+        >
+          <Download className="w-3 h-3 mr-1" />
+          {FORMAT_LABELS[format]}
+        </button>
+      ))}
+    </div>
+  );
+}
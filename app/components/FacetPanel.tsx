@@ -0,0 +1,109 @@
+"use client";
+
+import { useId } from "react";
+import {
+  EMPTY_FILTERS,
+  hasActiveFilters,
+  toggleFilterValue,
+  type FacetKey,
+  type ResultFacets,
+  type ResultFilters,
+} from "../lib/filters";
+
+const FACET_SECTIONS: Array<{ key: FacetKey; label: string }> = [
+  { key: 'embeddingTypes', label: 'Embedding Type' },
+  { key: 'models', label: 'Model' },
+  { key: 'versions', label: 'Version' },
+  { key: 'tags', label: 'Tags' },
+];
+
+// Facets with more values than this are collapsed to their most common ones
+const MAX_VISIBLE_VALUES = 15;
+
+interface FacetPanelProps {
+  facets: ResultFacets;
+  filters: ResultFilters;
+  onChange: (filters: ResultFilters) => void;
+}
+
+export default function FacetPanel({ facets, filters, onChange }: FacetPanelProps) {
+  const range = facets.distanceRange;
+  const distanceId = useId();
+
+  return (
+    <aside className="w-full md:w-64 shrink-0 space-y-6 border rounded-lg p-4 bg-white text-gray-900">
+      <div className="flex justify-between items-center">
+        <h2 className="font-semibold">Filters</h2>
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => onChange(EMPTY_FILTERS)}
+            className="text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded-full"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      {range && (
+        <div>
+          <label htmlFor={distanceId} className="block text-sm font-medium mb-2">
+            Max Distance: {(filters.maxDistance ?? range.max).toFixed(4)}
+          </label>
+          <input
+            id={distanceId}
+            type="range"
+            min={range.min}
+            max={range.max}
+            step={Math.max((range.max - range.min) / 100, 0.0001)}
+            value={filters.maxDistance ?? range.max}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              onChange({ ...filters, maxDistance: value >= range.max ? null : value });
+            }}
+            className="w-full"
+          />
+        </div>
+      )}
+
+      {FACET_SECTIONS.map(({ key, label }) => {
+        // Keep selected values visible even if they fall outside the top values
+        // or, when restored from a link, don't occur in these results at all
+        const values = [
+          ...facets[key].filter((facet, index) =>
+            index < MAX_VISIBLE_VALUES || filters[key].includes(facet.value)
+          ),
+          ...filters[key]
+            .filter((value) => !facets[key].some((facet) => facet.value === value))
+            .map((value) => ({ value, count: 0 })),
+        ];
+
+        if (values.length === 0) {
+          return null;
+        }
+
+        return (
+          <div key={key}>
+            <h3 className="text-sm font-medium mb-2">{label}</h3>
+            <ul className="space-y-1">
+              {values.map((facet) => (
+                <li key={facet.value}>
+                  <label className="flex items-center justify-between text-sm gap-2">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <input
+                        type="checkbox"
+                        checked={filters[key].includes(facet.value)}
+                        onChange={() => onChange(toggleFilterValue(filters, key, facet.value))}
+                      />
+                      <span className="truncate">{facet.value}</span>
+                    </span>
+                    <span className="text-gray-500">{facet.count}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </aside>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import type { SimilarityMatrix } from "../lib/matrix";
+
+interface HeatmapProps {
+  ids: string[];
+  matrix: SimilarityMatrix;
+  order: number[];
+  onCellClick?: (i: number, j: number) => void;
+}
+
+// Map a value within [min, max] to a white-to-blue color
+function cellColor(value: number | null, min: number, max: number) {
+  if (value === null) {
+    return '#e5e7eb';
+  }
+  const t = max > min ? (value - min) / (max - min) : 1;
+  return `hsl(220, 80%, ${Math.round(95 - t * 60)}%)`;
+}
+
+export default function Heatmap({ ids, matrix, order, onCellClick }: HeatmapProps) {
+  const [hovered, setHovered] = useState<{ i: number; j: number } | null>(null);
+
+  // Scale colors to the off-diagonal range so self-similarity doesn't wash it out
+  const values = matrix.flatMap((row, i) => row.filter((value, j) => i !== j && value !== null)) as number[];
+  const min = values.length > 0 ? Math.min(...values) : 0;
+  const max = values.length > 0 ? Math.max(...values) : 1;
+
+  const hoveredValue = hovered ? matrix[hovered.i][hovered.j] : null;
+
+  return (
+    <div className="space-y-2 text-gray-900">
+      <div className="text-sm h-5">
+        {hovered ? (
+          <>
+            {ids[hovered.i]} ↔ {ids[hovered.j]}: <b>{hoveredValue === null ? 'n/a' : hoveredValue.toFixed(4)}</b>
+          </>
+        ) : (
+          <>Range {min.toFixed(4)} – {max.toFixed(4)}. Hover a cell for its score, click to open the comparison.</>
+        )}
+      </div>
+      <div className="overflow-auto">
+        <table className="border-collapse text-xs" onMouseLeave={() => setHovered(null)}>
+          <thead>
+            <tr>
+              <th />
+              {order.map((j) => (
+                <th key={j} className="px-1 font-normal align-bottom">
+                  <div className="[writing-mode:vertical-rl] rotate-180 whitespace-nowrap">{ids[j]}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {order.map((i) => (
+              <tr key={i}>
+                <th className="pr-2 font-normal text-right whitespace-nowrap">{ids[i]}</th>
+                {order.map((j) => (
+                  <td
+                    key={j}
+                    className={`w-6 h-6 min-w-6 border border-white ${onCellClick ? 'cursor-pointer' : ''} ${hovered?.i === i && hovered?.j === j ? 'outline outline-2 outline-black' : ''}`}
+                    style={{ backgroundColor: cellColor(matrix[i][j], min, max) }}
+                    onMouseEnter={() => setHovered({ i, j })}
+                    onClick={() => onCellClick?.(i, j)}
+                  />
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ImagePlus, X } from "lucide-react";
+import Image from "next/image";
+import { IMAGE_SEARCH_MIME_TYPES } from "../lib/embeddings";
+
+interface ImageDropZoneProps {
+  image: Blob | null;
+  imageUrl: string;
+  onImageChange: (image: Blob | null) => void;
+  onImageUrlChange: (url: string) => void;
+}
+
+// Whether a typed URL is complete enough to preview; a partial one like
+// "http://" would fail to load
+function isImageUrl(value: string) {
+  if (!/^https?:\/\//.test(value)) {
+    return false;
+  }
+  try {
+    return !!new URL(value).hostname;
+  } catch {
+    return false;
+  }
+}
+
+// Image input for query-by-image: drop, browse or paste a file, or paste an
+// image URL. A file takes precedence over the URL while one is selected.
+export default function ImageDropZone({ image, imageUrl, onImageChange, onImageUrlChange }: ImageDropZoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState('');
+
+  useEffect(() => {
+    if (!image) {
+      setPreviewUrl('');
+      return;
+    }
+    const url = URL.createObjectURL(image);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  const selectFile = (files: FileList | null | undefined) => {
+    const file = files && Array.from(files).find((entry) => entry.type.startsWith('image/'));
+    if (file) {
+      onImageChange(file);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (e.clipboardData.files.length > 0) {
+      e.preventDefault();
+      selectFile(e.clipboardData.files);
+    }
+  };
+
+  const preview = previewUrl || (isImageUrl(imageUrl) ? imageUrl : '');
+
+  return (
+    <div className="space-y-2" onPaste={handlePaste}>
+      <div id="query-image-label" className="block text-sm font-medium mb-2 text-white-900">Query Image</div>
+      <div
+        role="group"
+        aria-labelledby="query-image-label"
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          selectFile(e.dataTransfer.files);
+        }}
+        onClick={() => inputRef.current?.click()}
+        className={`flex items-center gap-4 p-4 border-2 border-dashed rounded-lg cursor-pointer ${
+          dragging ? 'border-blue-600 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+        }`}
+      >
+        {preview ? (
+          <div className="relative w-24 h-24 flex-shrink-0 bg-gray-100 rounded">
+            <Image src={preview} alt="Query image" fill className="object-contain" unoptimized />
+          </div>
+        ) : (
+          <ImagePlus className="w-8 h-8 text-gray-400 flex-shrink-0" />
+        )}
+        <div className="text-sm text-gray-500 min-w-0">
+          {image ? (
+            <p className="truncate">{image instanceof File ? image.name : 'Pasted image'} ({Math.round(image.size / 1024)} KB)</p>
+          ) : (
+            <p>
+              Drop an image here,{' '}
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  inputRef.current?.click();
+                }}
+                className="text-blue-600 hover:underline"
+              >
+                browse
+              </button>
+              , or paste from the clipboard
+            </p>
+          )}
+        </div>
+        {image && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onImageChange(null);
+            }}
+            className="ml-auto p-1 text-gray-500 hover:text-gray-700"
+            aria-label="Remove image"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={IMAGE_SEARCH_MIME_TYPES.join(',')}
+          onChange={(e) => {
+            selectFile(e.target.files);
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+      </div>
+      <input
+        type="url"
+        value={imageUrl}
+        onChange={(e) => onImageUrlChange(e.target.value)}
+        disabled={!!image}
+        placeholder="...or enter an image URL"
+        aria-label="Image URL"
+        className="w-full p-2 border rounded-lg text-gray-900 disabled:bg-gray-100"
+      />
+    </div>
+  );
+}
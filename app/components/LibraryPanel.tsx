@@ -0,0 +1,296 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Download, Trash2, Upload } from "lucide-react";
+import { downloadFile } from "../lib/download";
+import { formatAnalogy, MAX_ANALOGY_TERMS } from "../lib/analogy";
+import { MAX_MATRIX_IDS } from "../lib/matrix";
+import {
+  addCollection,
+  clearHistory,
+  exportLibrary,
+  mergeLibrary,
+  newCollection,
+  parseLibrary,
+  removeCollection,
+  removeSavedSearch,
+  saveSearch,
+  type Collection,
+  type Library,
+} from "../lib/library";
+
+type LibraryTab = 'history' | 'saved' | 'collections';
+
+interface LibraryPanelProps {
+  library: Library;
+  updateLibrary: (update: (current: Library) => Library) => void;
+  // Query string of the search currently shown, if any
+  currentSearch: string;
+  activeCollectionId: string;
+  onActiveCollectionChange: (id: string) => void;
+  env: string;
+}
+
+function withEnv(params: URLSearchParams, env: string) {
+  if (env) {
+    params.set('env', env);
+  }
+  return params.toString();
+}
+
+// Searches seeded from a collection: nearest neighbors of the combined
+// artworks (an analogy query with every artwork added), a direct compare for
+// two artworks, or the pairwise similarity matrix
+function collectionLinks(collection: Collection, env: string) {
+  const ids = collection.artworks.map((artwork) => String(artwork.id));
+  const links: Array<{ label: string; href: string }> = [];
+
+  if (ids.length === 1) {
+    links.push({ label: 'Nearest neighbors', href: `/?${withEnv(new URLSearchParams({ type: 'nearest_neighbor', id: ids[0] }), env)}` });
+  } else if (ids.length > 1 && ids.length <= MAX_ANALOGY_TERMS) {
+    const expr = formatAnalogy(ids.map((id) => ({ kind: 'artwork', value: id, weight: 1 })));
+    links.push({ label: 'Nearest to collection', href: `/?${withEnv(new URLSearchParams({ type: 'analogy', expr }), env)}` });
+  }
+  if (ids.length === 2) {
+    links.push({ label: 'Compare', href: `/?${withEnv(new URLSearchParams({ type: 'compare', id: ids[0], compareId: ids[1] }), env)}` });
+  }
+  if (ids.length > 1) {
+    links.push({ label: 'Similarity matrix', href: `/matrix?${withEnv(new URLSearchParams({ ids: ids.slice(0, MAX_MATRIX_IDS).join(',') }), env)}` });
+  }
+  return links;
+}
+
+// History, saved searches and collections. Searches open as full page loads
+// since the search page reads its state from the URL when it mounts.
+export default function LibraryPanel({
+  library,
+  updateLibrary,
+  currentSearch,
+  activeCollectionId,
+  onActiveCollectionChange,
+  env,
+}: LibraryPanelProps) {
+  const [tab, setTab] = useState<LibraryTab>('history');
+  const [searchName, setSearchName] = useState('');
+  const [collectionName, setCollectionName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = (file: File) => {
+    file.text()
+      .then((text) => {
+        const imported = parseLibrary(text);
+        updateLibrary((current) => mergeLibrary(current, imported));
+        setImportError(null);
+      })
+      .catch((err) => {
+        setImportError(err instanceof Error ? err.message : 'Failed to import file');
+      });
+  };
+
+  const handleCreateCollection = () => {
+    const collection = newCollection(collectionName, `Collection ${library.collections.length + 1}`);
+    updateLibrary((current) => addCollection(current, collection));
+    onActiveCollectionChange(collection.id);
+    setCollectionName('');
+  };
+
+  const tabs: Array<{ id: LibraryTab; label: string; count: number }> = [
+    { id: 'history', label: 'History', count: library.history.length },
+    { id: 'saved', label: 'Saved', count: library.saved.length },
+    { id: 'collections', label: 'Collections', count: library.collections.length },
+  ];
+
+  return (
+    <div className="mb-6 p-4 border rounded-lg bg-white text-gray-900">
+      <div className="flex justify-between items-center mb-3">
+        <div className="flex gap-2">
+          {tabs.map(({ id, label, count }) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-3 py-1 text-sm rounded ${tab === id ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+            >
+              {label} ({count})
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => downloadFile('saved-searches.json', exportLibrary(library), 'application/json')}
+            className="flex items-center text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded-full"
+          >
+            <Download className="w-3 h-3 mr-1" />
+            Export
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex items-center text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded-full"
+          >
+            <Upload className="w-3 h-3 mr-1" />
+            Import
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            aria-label="Import saved searches"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) {
+                handleImport(file);
+              }
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {importError && (
+        <div className="text-red-600 p-4 rounded-lg bg-red-50 mb-4">
+          {importError}
+        </div>
+      )}
+
+      {tab === 'history' && (
+        <div className="space-y-1">
+          {library.history.length === 0 ? (
+            <p className="text-sm text-gray-500">Searches you run will appear here.</p>
+          ) : (
+            <>
+              <ul className="max-h-48 overflow-y-auto text-sm">
+                {library.history.map((entry) => (
+                  <li key={entry.id} className="flex justify-between gap-2 py-1">
+                    <a href={`/?${entry.search}`} className="text-blue-600 hover:underline truncate">{entry.label}</a>
+                    <span className="text-xs text-gray-500 flex-shrink-0">{new Date(entry.createdAt).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={() => updateLibrary(clearHistory)}
+                className="text-xs text-gray-500 hover:underline"
+              >
+                Clear history
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {tab === 'saved' && (
+        <div className="space-y-2">
+          {currentSearch && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={searchName}
+                onChange={(e) => setSearchName(e.target.value)}
+                placeholder="Name this search..."
+                aria-label="Search name"
+                className="w-full p-2 border rounded-lg text-gray-900"
+              />
+              <button
+                onClick={() => {
+                  updateLibrary((current) => saveSearch(current, currentSearch, searchName));
+                  setSearchName('');
+                }}
+                className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 flex-shrink-0"
+              >
+                Save current search
+              </button>
+            </div>
+          )}
+          {library.saved.length === 0 ? (
+            <p className="text-sm text-gray-500">No saved searches yet.</p>
+          ) : (
+            <ul className="max-h-48 overflow-y-auto text-sm">
+              {library.saved.map((entry) => (
+                <li key={entry.id} className="flex justify-between items-center gap-2 py-1">
+                  <a href={`/?${entry.search}`} className="text-blue-600 hover:underline truncate" title={entry.label}>
+                    {entry.name}
+                  </a>
+                  <button
+                    onClick={() => updateLibrary((current) => removeSavedSearch(current, entry.id))}
+                    className="p-1 text-gray-500 hover:text-gray-700"
+                    aria-label={`Delete ${entry.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {tab === 'collections' && (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={collectionName}
+              onChange={(e) => setCollectionName(e.target.value)}
+              placeholder="New collection name..."
+              aria-label="Collection name"
+              className="w-full p-2 border rounded-lg text-gray-900"
+            />
+            <button
+              onClick={handleCreateCollection}
+              className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 flex-shrink-0"
+            >
+              Create
+            </button>
+          </div>
+          {library.collections.length === 0 ? (
+            <p className="text-sm text-gray-500">Create a collection, then add artworks to it from the result cards.</p>
+          ) : (
+            library.collections.map((collection) => (
+              <div key={collection.id} className="border rounded-lg p-3">
+                <div className="flex justify-between items-center mb-2">
+                  <label className="flex items-center gap-2 text-sm font-medium">
+                    <input
+                      type="radio"
+                      name="active-collection"
+                      checked={collection.id === activeCollectionId}
+                      onChange={() => onActiveCollectionChange(collection.id)}
+                    />
+                    {collection.name} ({collection.artworks.length})
+                  </label>
+                  <button
+                    onClick={() => updateLibrary((current) => removeCollection(current, collection.id))}
+                    className="p-1 text-gray-500 hover:text-gray-700"
+                    aria-label={`Delete ${collection.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                {collection.artworks.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {collection.artworks.map((artwork) => (
+                      <a
+                        key={artwork.id}
+                        href={`/?${withEnv(new URLSearchParams({ type: 'nearest_neighbor', id: String(artwork.id) }), env)}`}
+                        title={artwork.description}
+                        className="text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded-full"
+                      >
+                        {artwork.id}
+                      </a>
+                    ))}
+                  </div>
+                )}
+                <div className="flex gap-3 mt-2 text-sm">
+                  {collectionLinks(collection, env).map((link) => (
+                    <a key={link.label} href={link.href} className="text-blue-600 hover:underline">
+                      {link.label}
+                    </a>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { X } from "lucide-react";
+import type { CollectionArtwork } from "../lib/library";
+
+interface PivotPickerProps {
+  pivot: 'compare' | 'between';
+  fromId: number;
+  // Artworks from the active collection, offered as the second artwork
+  pinned: CollectionArtwork[];
+  collectionName?: string;
+  onPick: (id: number) => void;
+  onCancel: () => void;
+}
+
+// Shown while a compare or between pivot waits for its second artwork: pick
+// a result card, a pinned artwork or enter an ID
+export default function PivotPicker({ pivot, fromId, pinned, collectionName, onPick, onCancel }: PivotPickerProps) {
+  const [otherId, setOtherId] = useState('');
+  const candidates = pinned.filter((artwork) => artwork.id !== fromId);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = parseInt(otherId.trim(), 10);
+    if (Number.isFinite(id)) {
+      onPick(id);
+    }
+  };
+
+  return (
+    <div role="region" aria-label="Choose a second artwork" className="p-4 rounded-lg bg-blue-50 text-blue-900 space-y-3">
+      <div className="flex justify-between items-center gap-4">
+        <span className="text-sm">
+          {pivot === 'compare' ? `Compare artwork ${fromId} with…` : `Find artworks between ${fromId} and…`}
+          {' '}pick a result below{candidates.length > 0 ? ', a pinned artwork' : ''} or enter an ID.
+        </span>
+        <button onClick={onCancel} className="p-1 text-blue-700 hover:text-blue-900" aria-label="Cancel">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {candidates.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {collectionName && <span className="text-xs">{collectionName}:</span>}
+          {candidates.map((artwork) => (
+            <button
+              key={artwork.id}
+              onClick={() => onPick(artwork.id)}
+              className="text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded-full"
+              title={artwork.description}
+            >
+              {artwork.id}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          inputMode="numeric"
+          value={otherId}
+          onChange={(e) => setOtherId(e.target.value)}
+          placeholder="Artwork ID..."
+          aria-label="Second artwork ID"
+          className="w-full p-2 border rounded-lg text-gray-900"
+        />
+        <button
+          type="submit"
+          disabled={!otherId.trim()}
+          className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:bg-blue-300 flex-shrink-0"
+        >
+          Go
+        </button>
+      </form>
+    </div>
+  );
+}
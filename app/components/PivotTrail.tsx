@@ -0,0 +1,38 @@
+"use client";
+
+import { ChevronRight } from "lucide-react";
+
+export interface PivotStep {
+  // The search's query string, as in the page URL
+  search: string;
+  label: string;
+}
+
+interface PivotTrailProps {
+  steps: PivotStep[];
+  // Query string of the search on screen
+  current: string;
+  onSelect: (index: number) => void;
+}
+
+// Breadcrumbs of the searches reached by pivoting from result cards
+export default function PivotTrail({ steps, current, onSelect }: PivotTrailProps) {
+  return (
+    <nav aria-label="Pivot trail" className="text-sm">
+      <ol className="flex flex-wrap items-center gap-1">
+        {steps.map((step, index) => (
+          <li key={index} className="flex items-center gap-1">
+            {index > 0 && <ChevronRight className="w-4 h-4 text-gray-400" aria-hidden="true" />}
+            {step.search === current ? (
+              <span aria-current="page" className="font-medium">{step.label}</span>
+            ) : (
+              <button onClick={() => onSelect(index)} className="text-blue-600 hover:underline">
+                {step.label}
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { MAX_OFFSET, type SearchResults } from "../lib/embeddings";
+
+interface ResultsPagerProps {
+  results: SearchResults;
+  offset: number;
+  limit: number;
+  loading: boolean;
+  onPageChange: (offset: number) => void;
+}
+
+// "Showing X–Y of total" header with previous/next paging
+export default function ResultsPager({ results, offset, limit, loading, onPageChange }: ResultsPagerProps) {
+  const total = results.total ?? results.count;
+  const first = results.count > 0 ? offset + 1 : 0;
+  const last = offset + results.count;
+  const hasPrevious = offset > 0;
+  const hasNext = offset + limit <= MAX_OFFSET && (total > last || (results.total === undefined && results.count >= limit));
+
+  return (
+    <div className="flex justify-between items-center">
+      <div className="text-sm text-gray-900">
+        Showing {first}–{last} of {total} results
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onPageChange(Math.max(0, offset - limit))}
+          disabled={loading || !hasPrevious}
+          className="flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:bg-blue-300"
+        >
+          <ChevronLeft className="w-4 h-4 mr-1" />
+          Previous
+        </button>
+        <button
+          onClick={() => onPageChange(offset + limit)}
+          disabled={loading || !hasNext}
+          className="flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:bg-blue-300"
+        >
+          Next
+          <ChevronRight className="w-4 h-4 ml-1" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { X } from "lucide-react";
+import type { Toast } from "../hooks/useToasts";
+
+interface ToastsProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+// Toasts from useToasts, in the bottom corner. The container is a live
+// region, so screen readers announce each toast as it appears.
+export default function Toasts({ toasts, onDismiss }: ToastsProps) {
+  return (
+    <div role="status" aria-live="polite" className="fixed bottom-4 right-4 z-50 flex flex-col gap-2">
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          className={`flex items-center gap-3 px-4 py-2 rounded-lg shadow-lg text-sm ${toast.kind === 'error' ? 'bg-red-600 text-white' : 'bg-gray-900 text-white'}`}
+        >
+          <span>{toast.message}</span>
+          <button onClick={() => onDismiss(toast.id)} aria-label="Dismiss notification" className="text-white/80 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import type { OverlayBox, OverlayLayer } from "../lib/vision";
+
+export const OVERLAY_LAYERS: Array<{ layer: OverlayLayer; label: string; color: string }> = [
+  { layer: 'denseCaption', label: 'Dense Captions', color: '#2563eb' },
+  { layer: 'objects', label: 'Objects', color: '#16a34a' },
+  { layer: 'peopleLocation', label: 'People', color: '#dc2626' },
+];
+
+interface VisionOverlayProps {
+  imageUrl: string;
+  alt: string;
+  boxes: OverlayBox[];
+  visibleLayers: OverlayLayer[];
+  minConfidence: number;
+}
+
+// Draws the analysis bounding boxes over the artwork image. Boxes are in the
+// pixel space of the analyzed image, so they're scaled by its natural size.
+export default function VisionOverlay({ imageUrl, alt, boxes, visibleLayers, minConfidence }: VisionOverlayProps) {
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+
+  const visibleBoxes = boxes.filter((box) =>
+    visibleLayers.includes(box.layer) && box.confidence >= minConfidence
+  );
+
+  return (
+    <div className="relative inline-block max-w-full">
+      <Image
+        src={imageUrl}
+        alt={alt}
+        className="max-w-full h-auto block"
+        width={800}
+        height={600}
+        unoptimized
+        onLoad={(e) => {
+          const img = e.currentTarget;
+          setNaturalSize({ width: img.naturalWidth, height: img.naturalHeight });
+        }}
+      />
+      {naturalSize && visibleBoxes.map((box, index) => {
+        const color = OVERLAY_LAYERS.find((layer) => layer.layer === box.layer)?.color;
+
+        return (
+          <div
+            key={`${box.layer}-${index}`}
+            className="absolute border-2 pointer-events-none"
+            style={{
+              left: `${(box.boundingBox.x / naturalSize.width) * 100}%`,
+              top: `${(box.boundingBox.y / naturalSize.height) * 100}%`,
+              width: `${(box.boundingBox.w / naturalSize.width) * 100}%`,
+              height: `${(box.boundingBox.h / naturalSize.height) * 100}%`,
+              borderColor: color,
+            }}
+          >
+            <span
+              className="absolute left-0 top-0 -translate-y-full text-xs text-white px-1 whitespace-nowrap"
+              style={{ backgroundColor: color }}
+            >
+              {box.label} ({(box.confidence * 100).toFixed(0)}%)
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,355 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import { ArrowLeft, Download, FlaskConical, Upload } from "lucide-react";
+import EnvironmentSelect from "../components/EnvironmentSelect";
+import { useEnvironments } from "../hooks/useEnvironments";
+import { downloadFile } from "../lib/download";
+import {
+  DEFAULT_K,
+  diffReports,
+  parseJudgments,
+  parseReport,
+  reportToCsv,
+  runEvaluation,
+  type EvaluationReport,
+  type QueryMetrics,
+} from "../lib/evaluation";
+
+const K_OPTIONS = [5, 10, 20, 50];
+
+const EXAMPLE_JUDGMENTS = `{
+  "queries": [
+    { "query": "a cat sleeping", "relevant": [12345, 67890] },
+    { "query": "stormy seascape", "relevant": { "111": 2, "222": 1 } }
+  ]
+}`;
+
+function formatMetric(value?: number) {
+  return value === undefined ? '–' : value.toFixed(3);
+}
+
+function DeltaCell({ value }: { value?: number }) {
+  if (value === undefined) {
+    return <td className="px-2 py-1 text-right">–</td>;
+  }
+  const color = value > 0 ? 'text-green-700' : value < 0 ? 'text-red-600' : 'text-gray-500';
+  return (
+    <td className={`px-2 py-1 text-right ${color}`}>
+      {value > 0 ? '+' : ''}{value.toFixed(3)}
+    </td>
+  );
+}
+
+function SummaryRow({ label, metrics }: { label: string; metrics: QueryMetrics }) {
+  return (
+    <tr>
+      <td className="px-2 py-1 font-medium">{label}</td>
+      <td className="px-2 py-1 text-right">{formatMetric(metrics.recall)}</td>
+      <td className="px-2 py-1 text-right">{formatMetric(metrics.reciprocalRank)}</td>
+      <td className="px-2 py-1 text-right">{formatMetric(metrics.ndcg)}</td>
+    </tr>
+  );
+}
+
+export default function EvaluatePage() {
+  const { environments, defaultEnvironment } = useEnvironments();
+  const [environment, setEnvironment] = useState('');
+  const [compareEnvironment, setCompareEnvironment] = useState('');
+  const [judgmentsText, setJudgmentsText] = useState('');
+  const [k, setK] = useState(DEFAULT_K);
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [baseline, setBaseline] = useState<EvaluationReport | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const judgmentsInputRef = useRef<HTMLInputElement | null>(null);
+  const baselineInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    setEnvironment((current) => current || defaultEnvironment);
+  }, [defaultEnvironment]);
+
+  const handleRun = async () => {
+    setError(null);
+    setReport(null);
+
+    let judgments;
+    try {
+      judgments = parseJudgments(judgmentsText);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid judgments');
+      return;
+    }
+
+    const runs = compareEnvironment ? 2 : 1;
+    setProgress({ done: 0, total: judgments.length * runs });
+
+    try {
+      // When comparing environments, the second one is the baseline
+      if (compareEnvironment) {
+        setBaseline(await runEvaluation(judgments, k, compareEnvironment, {
+          onProgress: (done, total) => setProgress({ done, total: total * runs }),
+        }));
+      }
+      setReport(await runEvaluation(judgments, k, environment, {
+        onProgress: (done, total) => setProgress({
+          done: done + (runs - 1) * total,
+          total: total * runs,
+        }),
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Evaluation failed');
+      console.error('Evaluation error:', err);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const readFile = (file: File, onLoad: (text: string) => void) => {
+    file.text().then(onLoad).catch((err) => {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    });
+  };
+
+  const diffs = report && baseline ? diffReports(baseline, report) : null;
+  const envLabel = (id: string) => environments.find((env) => env.id === id)?.label ?? (id || 'default');
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-8">
+        <Link href="/" className="inline-flex items-center text-sm text-blue-600 hover:underline mb-4">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to search
+        </Link>
+        <h1 className="text-3xl font-bold mb-4 text-white-900">Search Evaluation</h1>
+
+        <div className="space-y-4 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <EnvironmentSelect environments={environments} value={environment} onChange={setEnvironment} />
+            <div>
+              <label className="block text-sm font-medium mb-2 text-white-900">Compare With (baseline)</label>
+              <select
+                value={compareEnvironment}
+                onChange={(e) => {
+                  setCompareEnvironment(e.target.value);
+                  setBaseline(null);
+                }}
+                className="w-full p-2 border rounded-lg text-gray-900"
+              >
+                <option value="">None</option>
+                {environments.map((env) => (
+                  <option key={env.id} value={env.id}>
+                    {env.label} ({env.baseUrl})
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium text-white-900">Judgments (JSON)</label>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setJudgmentsText(EXAMPLE_JUDGMENTS)}
+                  className="text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded-full"
+                >
+                  Example
+                </button>
+                <button
+                  onClick={() => judgmentsInputRef.current?.click()}
+                  className="flex items-center text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded-full"
+                >
+                  <Upload className="w-3 h-3 mr-1" />
+                  Load file
+                </button>
+              </div>
+            </div>
+            <textarea
+              value={judgmentsText}
+              onChange={(e) => setJudgmentsText(e.target.value)}
+              placeholder={EXAMPLE_JUDGMENTS}
+              rows={8}
+              className="w-full p-2 border rounded-lg text-gray-900 font-mono text-sm"
+            />
+            <input
+              ref={judgmentsInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  readFile(file, setJudgmentsText);
+                }
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2 text-white-900">Cutoff (k)</label>
+            <select
+              value={k}
+              onChange={(e) => setK(parseInt(e.target.value, 10))}
+              className="w-full p-2 border rounded-lg text-gray-900"
+            >
+              {K_OPTIONS.map((value) => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleRun}
+              disabled={!!progress || !judgmentsText.trim()}
+              className="flex-1 flex items-center justify-center p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-blue-300"
+            >
+              <FlaskConical className="w-4 h-4 mr-2" />
+              {progress ? `Running ${progress.done}/${progress.total}...` : 'Run Evaluation'}
+            </button>
+            <button
+              onClick={() => baselineInputRef.current?.click()}
+              className="flex items-center px-3 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Load Baseline Report
+            </button>
+            <input
+              ref={baselineInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  readFile(file, (text) => {
+                    try {
+                      setBaseline(parseReport(text));
+                      setCompareEnvironment('');
+                    } catch (err) {
+                      setError(err instanceof Error ? err.message : 'Invalid report');
+                    }
+                  });
+                }
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="text-red-600 p-4 rounded-lg bg-red-50 mb-4">
+            {error}
+          </div>
+        )}
+
+        {report && (
+          <div className="space-y-4 text-gray-900">
+            <div className="border rounded-lg p-4 bg-white">
+              <div className="flex justify-between items-center mb-2">
+                <h2 className="text-xl font-semibold">Summary</h2>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => downloadFile('evaluation-report.json', JSON.stringify(report, null, 2), 'application/json')}
+                    className="flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+                  >
+                    <Download className="w-4 h-4 mr-1" />
+                    JSON
+                  </button>
+                  <button
+                    onClick={() => downloadFile('evaluation-report.csv', reportToCsv(report), 'text/csv')}
+                    className="flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+                  >
+                    <Download className="w-4 h-4 mr-1" />
+                    CSV
+                  </button>
+                </div>
+              </div>
+              <table className="text-sm">
+                <thead>
+                  <tr>
+                    <th className="px-2 py-1 text-left">Run</th>
+                    <th className="px-2 py-1 text-right">Recall@{report.k}</th>
+                    <th className="px-2 py-1 text-right">MRR</th>
+                    <th className="px-2 py-1 text-right">nDCG@{report.k}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <SummaryRow label={`${envLabel(report.env)}${report.model ? ` (${report.model})` : ''}`} metrics={report.summary} />
+                  {baseline && (
+                    <SummaryRow
+                      label={`Baseline: ${envLabel(baseline.env)}${baseline.model ? ` (${baseline.model})` : ''}`}
+                      metrics={baseline.summary}
+                    />
+                  )}
+                </tbody>
+              </table>
+              {baseline && baseline.k !== report.k && (
+                <p className="text-sm text-red-600 mt-2">
+                  The baseline was run with k={baseline.k}, so its metrics aren&apos;t directly comparable.
+                </p>
+              )}
+            </div>
+
+            <div className="border rounded-lg p-4 bg-white overflow-auto">
+              <h2 className="text-xl font-semibold mb-2">Per Query</h2>
+              <table className="text-sm w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="px-2 py-1 text-left">Query</th>
+                    <th className="px-2 py-1 text-right">Recall</th>
+                    <th className="px-2 py-1 text-right">RR</th>
+                    <th className="px-2 py-1 text-right">nDCG</th>
+                    {diffs && (
+                      <>
+                        <th className="px-2 py-1 text-right">ΔRecall</th>
+                        <th className="px-2 py-1 text-right">ΔRR</th>
+                        <th className="px-2 py-1 text-right">ΔnDCG</th>
+                      </>
+                    )}
+                    <th className="px-2 py-1 text-left">Top {report.k} (relevant in bold)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.queries.map((entry) => {
+                    const diff = diffs?.find((candidate) => candidate.query === entry.query);
+                    return (
+                      <tr key={entry.query} className="border-b align-top">
+                        <td className="px-2 py-1">{entry.query}</td>
+                        <td className="px-2 py-1 text-right">{formatMetric(entry.metrics.recall)}</td>
+                        <td className="px-2 py-1 text-right">{formatMetric(entry.metrics.reciprocalRank)}</td>
+                        <td className="px-2 py-1 text-right">{formatMetric(entry.metrics.ndcg)}</td>
+                        {diffs && (
+                          <>
+                            <DeltaCell value={diff?.delta?.recall} />
+                            <DeltaCell value={diff?.delta?.reciprocalRank} />
+                            <DeltaCell value={diff?.delta?.ndcg} />
+                          </>
+                        )}
+                        <td className="px-2 py-1">
+                          {entry.error ? (
+                            <span className="text-red-600">{entry.error}</span>
+                          ) : (
+                            entry.retrieved.slice(0, report.k).map((id, index) => (
+                              <span key={id}>
+                                {index > 0 && ', '}
+                                <span className={entry.relevant[id] ? 'font-bold text-green-700' : ''}>{id}</span>
+                              </span>
+                            ))
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
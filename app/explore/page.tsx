@@ -0,0 +1,432 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, Download, Share2, Upload, Waypoints } from "lucide-react";
+import EnvironmentSelect from "../components/EnvironmentSelect";
+import Toasts from "../components/Toasts";
+import { useEnvironments } from "../hooks/useEnvironments";
+import { useToasts } from "../hooks/useToasts";
+import { downloadFile } from "../lib/download";
+import { MAX_PAGE_SIZE, getArtwork, nearestArtworks } from "../lib/embeddings";
+import {
+  DEFAULT_NEIGHBOR_COUNT,
+  addNeighbors,
+  createGraph,
+  graphFromJson,
+  graphToJson,
+  layoutStep,
+  setNodeArtwork,
+  type ExplorationGraph,
+} from "../lib/graph";
+
+const NEIGHBOR_COUNTS = [4, 8, 12, 20];
+const NODE_SIZE = 40;
+// Stop animating once the layout has settled or after this many frames
+const SETTLED_MOVEMENT = 0.5;
+const MAX_FRAMES = 400;
+
+function ExploreContent() {
+  const searchParams = useSearchParams();
+  const { environments, defaultEnvironment } = useEnvironments();
+  const { toasts, dismissToast, copyShareLink } = useToasts();
+
+  const [environment, setEnvironment] = useState(searchParams.get('env') || '');
+  const [startId, setStartId] = useState(searchParams.get('start') || '');
+  const [neighborCount, setNeighborCount] = useState(
+    Math.min(parseInt(searchParams.get('k') || '', 10) || DEFAULT_NEIGHBOR_COUNT, MAX_PAGE_SIZE)
+  );
+  const [graph, setGraph] = useState<ExplorationGraph | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [expanding, setExpanding] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped every animation frame; node positions are mutated in place
+  const [, setFrame] = useState(0);
+  const graphRef = useRef<ExplorationGraph | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    setEnvironment((current) => current || defaultEnvironment);
+  }, [defaultEnvironment]);
+
+  useEffect(() => {
+    graphRef.current = graph;
+  }, [graph]);
+
+  // Run the force layout whenever the graph's structure changes
+  useEffect(() => {
+    if (!graph) {
+      return;
+    }
+
+    let frames = 0;
+    let handle = 0;
+    const tick = () => {
+      const movement = layoutStep(graph);
+      setFrame((frame) => frame + 1);
+      if (movement > SETTLED_MOVEMENT && ++frames < MAX_FRAMES) {
+        handle = requestAnimationFrame(tick);
+      }
+    };
+    handle = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(handle);
+  }, [graph]);
+
+  const writeUrl = (next: ExplorationGraph, env: string, count: number, push: boolean) => {
+    const params = new URLSearchParams({ start: next.start });
+    if (next.expanded.length > 0) {
+      params.set('expanded', next.expanded.join(','));
+    }
+    if (count !== DEFAULT_NEIGHBOR_COUNT) {
+      params.set('k', String(count));
+    }
+    if (env && env !== defaultEnvironment) {
+      params.set('env', env);
+    }
+    const newUrl = `${window.location.pathname}?${params.toString()}`;
+    if (push) {
+      window.history.pushState({ path: newUrl }, '', newUrl);
+    } else {
+      window.history.replaceState({ path: newUrl }, '', newUrl);
+    }
+  };
+
+  const expandNode = useCallback(async (current: ExplorationGraph, nodeId: string, env: string, count: number) => {
+    setExpanding(nodeId);
+    try {
+      const result = await nearestArtworks(nodeId, { limit: count }, { env });
+      return addNeighbors(current, nodeId, result.data.items);
+    } finally {
+      setExpanding(null);
+    }
+  }, []);
+
+  // Rebuild a graph from its start node and expansion order
+  const replay = useCallback(async (start: string, expanded: string[], env: string, count: number) => {
+    setError(null);
+    setSelected(start);
+
+    let next = createGraph(start);
+    setGraph(next);
+
+    try {
+      const { item } = await getArtwork(start, { env });
+      next = setNodeArtwork(next, item);
+      setGraph(next);
+    } catch (err) {
+      // The graph still works without the start node's thumbnail
+      console.error('Artwork error:', err);
+    }
+
+    try {
+      for (const nodeId of expanded.length > 0 ? expanded : [start]) {
+        next = await expandNode(next, nodeId, env, count);
+        setGraph(next);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load neighbors');
+      console.error('Explore error:', err);
+    }
+
+    return next;
+  }, [expandNode]);
+
+  // Restore a shared exploration on load
+  useEffect(() => {
+    const start = searchParams.get('start');
+    if (start) {
+      const expanded = (searchParams.get('expanded') || '').split(',').filter(Boolean);
+      replay(start, expanded, searchParams.get('env') || '', neighborCount);
+    }
+  // Only run this effect once on mount - empty dependency array
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleStart = async () => {
+    if (!startId.trim()) {
+      setError('Artwork ID is required');
+      return;
+    }
+    const next = await replay(startId.trim(), [], environment, neighborCount);
+    writeUrl(next, environment, neighborCount, true);
+  };
+
+  const handleNodeClick = async (nodeId: string) => {
+    setSelected(nodeId);
+
+    const current = graphRef.current;
+    if (!current || expanding || current.expanded.includes(nodeId)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      const next = await expandNode(current, nodeId, environment, neighborCount);
+      setGraph(next);
+      writeUrl(next, environment, neighborCount, false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load neighbors');
+      console.error('Explore error:', err);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = graphFromJson(await file.text());
+      if (imported.env) {
+        setEnvironment(imported.env);
+      }
+      if (imported.neighborCount) {
+        setNeighborCount(imported.neighborCount);
+      }
+      setStartId(imported.graph.start);
+      setSelected(imported.graph.start);
+      setGraph(imported.graph);
+      setError(null);
+      writeUrl(
+        imported.graph,
+        imported.env ?? environment,
+        imported.neighborCount ?? neighborCount,
+        true
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import graph');
+    }
+  };
+
+  const nodes = graph ? Object.values(graph.nodes) : [];
+  const xs = nodes.map((node) => node.x);
+  const ys = nodes.map((node) => node.y);
+  const margin = NODE_SIZE * 1.5;
+  const viewBox = nodes.length > 0
+    ? [
+      Math.min(...xs) - margin,
+      Math.min(...ys) - margin,
+      Math.max(...xs) - Math.min(...xs) + 2 * margin,
+      Math.max(...ys) - Math.min(...ys) + 2 * margin,
+    ].join(' ')
+    : '0 0 100 100';
+  const selectedNode = graph && selected ? graph.nodes[selected] : null;
+  const envQuery = environment && environment !== defaultEnvironment ? `?env=${encodeURIComponent(environment)}` : '';
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-8">
+        <Link href="/" className="inline-flex items-center text-sm text-blue-600 hover:underline mb-4">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to search
+        </Link>
+        <h1 className="text-3xl font-bold mb-4 text-white-900">Explore Neighbors</h1>
+
+        <div className="space-y-4 mb-6">
+          <EnvironmentSelect environments={environments} value={environment} onChange={setEnvironment} />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2 text-white-900">Start Artwork ID</label>
+              <input
+                type="text"
+                value={startId}
+                onChange={(e) => setStartId(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleStart();
+                  }
+                }}
+                placeholder="Enter artwork ID..."
+                className="w-full p-2 border rounded-lg text-gray-900"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2 text-white-900">Neighbors Per Expansion</label>
+              <select
+                value={neighborCount}
+                onChange={(e) => setNeighborCount(parseInt(e.target.value, 10))}
+                className="w-full p-2 border rounded-lg text-gray-900"
+              >
+                {[...new Set([...NEIGHBOR_COUNTS, neighborCount])].sort((a, b) => a - b).map((count) => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleStart}
+              disabled={!!expanding}
+              className="flex-1 flex items-center justify-center p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-blue-300"
+            >
+              <Waypoints className="w-4 h-4 mr-2" />
+              {expanding ? 'Loading neighbors...' : 'Start Exploring'}
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center px-3 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  handleImport(file);
+                }
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="text-red-600 p-4 rounded-lg bg-red-50 mb-4">
+            {error}
+          </div>
+        )}
+
+        {graph && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-2 text-sm text-gray-900">
+              <span>
+                {nodes.length} artworks, {graph.edges.length} edges, {graph.expanded.length} expanded.
+                Click a node to expand its neighbors.
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={copyShareLink}
+                  className="flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+                >
+                  <Share2 className="w-4 h-4 mr-1" />
+                  Copy Share Link
+                </button>
+                <button
+                  onClick={() => downloadFile('exploration.json', graphToJson(graph, environment, neighborCount), 'application/json')}
+                  className="flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+                >
+                  <Download className="w-4 h-4 mr-1" />
+                  Export JSON
+                </button>
+              </div>
+            </div>
+
+            <div className="flex flex-col lg:flex-row gap-4">
+              <div className="flex-1 border rounded-lg bg-white overflow-hidden">
+                <svg viewBox={viewBox} className="w-full h-[600px] select-none">
+                  {graph.edges.map((edge) => {
+                    const source = graph.nodes[edge.source];
+                    const target = graph.nodes[edge.target];
+                    if (!source || !target) {
+                      return null;
+                    }
+                    return (
+                      <line
+                        key={`${edge.source}-${edge.target}`}
+                        x1={source.x}
+                        y1={source.y}
+                        x2={target.x}
+                        y2={target.y}
+                        stroke="#2563eb"
+                        strokeOpacity={Math.max(0.15, 1 - edge.distance)}
+                        strokeWidth={Math.max(1, 4 * (1 - edge.distance))}
+                      >
+                        <title>Distance: {edge.distance.toFixed(4)}</title>
+                      </line>
+                    );
+                  })}
+                  {nodes.map((node) => {
+                    const isExpanded = graph.expanded.includes(node.id);
+                    const stroke = node.id === selected ? '#dc2626' : isExpanded ? '#2563eb' : '#9ca3af';
+
+                    return (
+                      <g key={node.id} className="cursor-pointer" onClick={() => handleNodeClick(node.id)}>
+                        <title>{node.id}{node.description ? `: ${node.description.slice(0, 100)}` : ''}</title>
+                        {node.imageUrl ? (
+                          <image
+                            href={node.imageUrl}
+                            x={node.x - NODE_SIZE / 2}
+                            y={node.y - NODE_SIZE / 2}
+                            width={NODE_SIZE}
+                            height={NODE_SIZE}
+                            preserveAspectRatio="xMidYMid slice"
+                          />
+                        ) : (
+                          <rect
+                            x={node.x - NODE_SIZE / 2}
+                            y={node.y - NODE_SIZE / 2}
+                            width={NODE_SIZE}
+                            height={NODE_SIZE}
+                            fill="#e5e7eb"
+                          />
+                        )}
+                        <rect
+                          x={node.x - NODE_SIZE / 2}
+                          y={node.y - NODE_SIZE / 2}
+                          width={NODE_SIZE}
+                          height={NODE_SIZE}
+                          fill="none"
+                          stroke={stroke}
+                          strokeWidth={node.id === graph.start || node.id === selected ? 4 : 2}
+                        />
+                        {node.id === expanding && (
+                          <text x={node.x} y={node.y + NODE_SIZE / 2 + 12} textAnchor="middle" fontSize={10}>
+                            loading...
+                          </text>
+                        )}
+                      </g>
+                    );
+                  })}
+                </svg>
+              </div>
+
+              {selectedNode && (
+                <div className="w-full lg:w-72 border rounded-lg p-4 bg-white text-gray-900 space-y-2">
+                  <h2 className="font-semibold">Artwork {selectedNode.id}</h2>
+                  {selectedNode.description && (
+                    <p className="text-sm">{selectedNode.description}</p>
+                  )}
+                  <div className="flex flex-col gap-1 text-sm">
+                    <Link href={`/artworks/${encodeURIComponent(selectedNode.id)}${envQuery}`} className="text-blue-600 hover:underline">
+                      Open details
+                    </Link>
+                    <a href={`https://artic.edu/artworks/${selectedNode.id}`} className="text-blue-600 hover:underline">
+                      View on artic.edu
+                    </a>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <Toasts toasts={toasts} onDismiss={dismissToast} />
+    </div>
+  );
+}
+
+// Loading fallback for Suspense
+function ExploreLoading() {
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex items-center justify-center h-40">
+        <div className="text-lg">Loading...</div>
+      </div>
+    </div>
+  );
+}
+
+export default function ExplorePage() {
+  return (
+    <Suspense fallback={<ExploreLoading />}>
+      <ExploreContent />
+    </Suspense>
+  );
+}
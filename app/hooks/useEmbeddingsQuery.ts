@@ -0,0 +1,118 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  EmbeddingsApiError,
+  describeError,
+  runEmbeddingsQuery,
+  type EmbeddingsQuery,
+  type EmbeddingsResult,
+  type ErrorDescription,
+} from "../lib/embeddings";
+import type { InitialSearch } from "../lib/searchState";
+
+export interface QueryRun {
+  query: EmbeddingsQuery;
+  env: string;
+}
+
+// Uploaded images don't serialize, so each Blob gets an id for query keys
+const blobIds = new WeakMap<Blob, number>();
+let nextBlobId = 0;
+
+function queryKey({ query, env }: QueryRun) {
+  return JSON.stringify({ env, query }, (key, value) => {
+    if (value instanceof Blob) {
+      if (!blobIds.has(value)) {
+        blobIds.set(value, nextBlobId++);
+      }
+      return `blob:${blobIds.get(value)}`;
+    }
+    return value;
+  });
+}
+
+// Runs one query at a time. Starting a different query aborts the one in
+// flight, so a slow stale response can never replace newer results; starting
+// the same query again while it's in flight joins it instead of refetching.
+// `initial` is a search already run while rendering on the server.
+export function useEmbeddingsQuery(
+  onSuccess?: (run: QueryRun, result: EmbeddingsResult) => void,
+  initial: InitialSearch | null = null
+) {
+  const initialRun = initial && { query: initial.query, env: initial.env };
+  const [results, setResults] = useState<EmbeddingsResult | null>(initial?.result ?? null);
+  // The query and environment the current results were fetched with
+  const [activeQuery, setActiveQuery] = useState<QueryRun | null>(initialRun);
+  // The last query run, successful or not, for retrying after an error
+  const [lastQuery, setLastQuery] = useState<QueryRun | null>(initialRun);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ErrorDescription | null>(null);
+  const [debugUrl, setDebugUrl] = useState(initial?.result.upstreamUrl ?? '');
+
+  const inFlight = useRef<{ key: string; controller: AbortController; promise: Promise<void> } | null>(null);
+  const onSuccessRef = useRef(onSuccess);
+  onSuccessRef.current = onSuccess;
+
+  const run = useCallback((query: EmbeddingsQuery, env: string): Promise<void> => {
+    const queryRun = { query, env };
+    const key = queryKey(queryRun);
+    if (inFlight.current?.key === key) {
+      return inFlight.current.promise;
+    }
+
+    inFlight.current?.controller.abort();
+    const controller = new AbortController();
+
+    setResults(null);
+    setLoading(true);
+    setError(null);
+    setDebugUrl('');
+    setLastQuery(queryRun);
+
+    const promise = runEmbeddingsQuery(query, { env, signal: controller.signal })
+      .then((result) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        setDebugUrl(result.upstreamUrl);
+        setActiveQuery(queryRun);
+        setResults(result);
+        onSuccessRef.current?.(queryRun, result);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        if (err instanceof EmbeddingsApiError && err.upstreamUrl) {
+          setDebugUrl(err.upstreamUrl);
+        }
+        setError(describeError(err));
+        console.error('Search error:', err);
+      })
+      .finally(() => {
+        if (inFlight.current?.controller === controller) {
+          inFlight.current = null;
+          setLoading(false);
+        }
+      });
+
+    inFlight.current = { key, controller, promise };
+    return promise;
+  }, []);
+
+  // Abort anything in flight and clear the results
+  const reset = useCallback(() => {
+    inFlight.current?.controller.abort();
+    inFlight.current = null;
+    setResults(null);
+    setActiveQuery(null);
+    setLoading(false);
+    setError(null);
+    setDebugUrl('');
+  }, []);
+
+  useEffect(() => () => inFlight.current?.controller.abort(), []);
+
+  return { results, activeQuery, lastQuery, loading, error, debugUrl, run, reset };
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { ApiEnvironment, ApiEnvironmentList } from "../lib/environments";
+
+// Load the allowlisted API environments from the server
+export function useEnvironments() {
+  const [environments, setEnvironments] = useState<ApiEnvironment[]>([]);
+  const [defaultEnvironment, setDefaultEnvironment] = useState('');
+
+  useEffect(() => {
+    fetch('/api/environments')
+      .then((response) => response.json())
+      .then((data: ApiEnvironmentList) => {
+        setEnvironments(data.environments);
+        setDefaultEnvironment(data.defaultEnvironment);
+      })
+      .catch((err) => {
+        console.error('Failed to load API environments:', err);
+      });
+  }, []);
+
+  return { environments, defaultEnvironment };
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { EMPTY_LIBRARY, isLibraryStorageKey, loadLibrary, storeLibrary, type Library } from "../lib/library";
+
+// History, saved searches and collections from localStorage. Changes made in
+// other tabs are picked up through the storage event.
+export function useLibrary() {
+  const [library, setLibrary] = useState<Library>(EMPTY_LIBRARY);
+
+  useEffect(() => {
+    setLibrary(loadLibrary());
+
+    const handleStorage = (event: StorageEvent) => {
+      if (isLibraryStorageKey(event.key)) {
+        setLibrary(loadLibrary());
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // Apply a change to the latest library and persist it
+  const updateLibrary = useCallback((update: (current: Library) => Library) => {
+    setLibrary((current) => {
+      const next = update(current);
+      storeLibrary(next);
+      return next;
+    });
+  }, []);
+
+  return { library, updateLibrary };
+}
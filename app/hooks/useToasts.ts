@@ -0,0 +1,52 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+
+export type ToastKind = 'success' | 'error';
+
+export interface Toast {
+  id: number;
+  message: string;
+  kind: ToastKind;
+}
+
+// How long a toast stays up before dismissing itself
+const TOAST_DURATION_MS = 4000;
+
+// Short-lived notifications, shown with <Toasts>
+export function useToasts() {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+  const timers = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  const dismissToast = useCallback((id: number) => {
+    clearTimeout(timers.current.get(id));
+    timers.current.delete(id);
+    setToasts((current) => current.filter((toast) => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback((message: string, kind: ToastKind = 'success') => {
+    const id = nextId.current++;
+    setToasts((current) => [...current, { id, message, kind }]);
+    timers.current.set(id, setTimeout(() => dismissToast(id), TOAST_DURATION_MS));
+  }, [dismissToast]);
+
+  // Copy the page's URL to the clipboard and say whether that worked
+  const copyShareLink = useCallback(() => {
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => {
+        showToast('Share link copied to clipboard');
+      })
+      .catch((err) => {
+        console.error('Failed to copy link:', err);
+        showToast('Failed to copy link. Please copy the URL manually.', 'error');
+      });
+  }, [showToast]);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  return { toasts, showToast, dismissToast, copyShareLink };
+}
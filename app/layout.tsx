@@ -12,9 +12,15 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+// AIC_SITE_URL is the public origin, for absolute Open Graph image URLs
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  metadataBase: process.env.AIC_SITE_URL ? new URL(process.env.AIC_SITE_URL) : undefined,
+  title: "Artwork Search",
+  description: "Search the Art Institute of Chicago collection by meaning, image and similarity using its artwork embeddings.",
+  openGraph: {
+    siteName: "Artwork Search",
+    type: "website",
+  },
 };
 
 export default function RootLayout({
@@ -0,0 +1,74 @@
+// Vector arithmetic ("analogy") expressions such as
+//   12345 - "winter" + "summer"
+// Each term is an artwork ID or a quoted text query, optionally scaled with
+// a weight ("0.5*"). The expression string is what goes in share links.
+
+export type AnalogyTermKind = 'artwork' | 'text';
+
+export interface AnalogyTerm {
+  kind: AnalogyTermKind;
+  value: string;
+  // Signed: subtracted terms have negative weights
+  weight: number;
+}
+
+export const MAX_ANALOGY_TERMS = 8;
+
+const TERM_PATTERN = /\s*([+-])?\s*(?:(\d+(?:\.\d+)?|\.\d+)\s*\*\s*)?(?:(\d+)|"((?:[^"\\]|\\.)*)")\s*/y;
+
+export function parseAnalogy(expression: string): AnalogyTerm[] {
+  const terms: AnalogyTerm[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    TERM_PATTERN.lastIndex = index;
+    const match = TERM_PATTERN.exec(expression);
+    if (!match || (terms.length > 0 && !match[1])) {
+      throw new Error(`Invalid analogy expression near "${expression.slice(index).trim()}"`);
+    }
+
+    const magnitude = match[2] ? parseFloat(match[2]) : 1;
+    terms.push({
+      kind: match[3] !== undefined ? 'artwork' : 'text',
+      value: match[3] ?? match[4].replace(/\\(.)/g, '$1'),
+      weight: match[1] === '-' ? -magnitude : magnitude,
+    });
+    index = TERM_PATTERN.lastIndex;
+  }
+
+  return terms;
+}
+
+export function formatAnalogy(terms: AnalogyTerm[]): string {
+  return terms.map((term, index) => {
+    const magnitude = Math.abs(term.weight);
+    const operand = term.kind === 'artwork'
+      ? term.value.trim()
+      : `"${term.value.replace(/["\\]/g, '\\$&')}"`;
+    const operator = term.weight < 0 ? '- ' : index > 0 ? '+ ' : '';
+    return `${operator}${magnitude !== 1 ? `${magnitude}*` : ''}${operand}`;
+  }).join(' ');
+}
+
+// Returns an error message for an expression the API can't run, or null
+export function validateAnalogy(terms: AnalogyTerm[]): string | null {
+  if (terms.length === 0) {
+    return 'Add at least one artwork or text term';
+  }
+  if (terms.length > MAX_ANALOGY_TERMS) {
+    return `An analogy can have at most ${MAX_ANALOGY_TERMS} terms`;
+  }
+  if (terms.some((term) => term.kind === 'artwork' && !/^\d+$/.test(term.value.trim()))) {
+    return 'Artwork terms must be numeric artwork IDs';
+  }
+  if (terms.some((term) => term.kind === 'text' && !term.value.trim())) {
+    return 'Text terms cannot be empty';
+  }
+  if (terms.some((term) => !Number.isFinite(term.weight) || term.weight === 0)) {
+    return 'Term weights must be non-zero numbers';
+  }
+  if (!terms.some((term) => term.weight > 0)) {
+    return 'At least one term must be added rather than subtracted';
+  }
+  return null;
+}
@@ -0,0 +1,64 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ResponseCache, cacheKey } from './cache';
+
+describe('ResponseCache', () => {
+  it('evicts the least recently used entry', async () => {
+    const cache = new ResponseCache(2);
+    await cache.set('a', 1, 'https://a', 60, 0);
+    await cache.set('b', 2, 'https://b', 60, 0);
+    await cache.get('a', 0);
+    await cache.set('c', 3, 'https://c', 60, 0);
+
+    expect(cache.size).toBe(2);
+    expect(await cache.get('b', 0)).toBeUndefined();
+    expect((await cache.get('a', 0))?.body).toBe(1);
+    expect((await cache.get('c', 0))?.body).toBe(3);
+  });
+
+  it('expires entries after their TTL', async () => {
+    const cache = new ResponseCache(10);
+    await cache.set('a', 1, 'https://a', 60, 1000);
+
+    expect(await cache.get('a', 60999)).toMatchObject({ body: 1, storedAt: 1000, expiresAt: 61000 });
+    expect(await cache.get('a', 61000)).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('purges by prefix', async () => {
+    const cache = new ResponseCache(10);
+    await cache.set(cacheKey('test', '/ai/v1/artworks/search?q=sea'), 1, '', 60);
+    await cache.set(cacheKey('test', '/ai/v1/artworks/1/nearest'), 2, '', 60);
+    await cache.set(cacheKey('prod', '/ai/v1/artworks/search?q=sea'), 3, '', 60);
+
+    expect(await cache.purge(cacheKey('test', '/ai/v1/artworks/search'))).toBe(1);
+    expect(await cache.purge(cacheKey('test', ''))).toBe(1);
+    expect(cache.size).toBe(1);
+    expect(await cache.purge()).toBe(1);
+    expect(cache.size).toBe(0);
+  });
+
+  describe('backed by a directory', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(path.join(tmpdir(), 'aic-cache-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('keeps entries across instances until purged', async () => {
+      await new ResponseCache(10, directory).set(cacheKey('test', '/ai/v1/artworks/1'), { id: 1 }, 'https://a', 60);
+
+      const restarted = new ResponseCache(10, directory);
+      expect((await restarted.get(cacheKey('test', '/ai/v1/artworks/1')))?.body).toEqual({ id: 1 });
+
+      expect(await new ResponseCache(10, directory).purge(cacheKey('test', ''))).toBe(1);
+      expect(await readdir(directory)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+// Response cache for the /api/artwork proxy: an in-memory LRU, optionally
+// backed by a directory of JSON files so entries survive restarts.
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, readdir, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { ENDPOINT_TYPES, type EndpointType } from './embeddings';
+import { configured } from './settings';
+
+export interface CacheEntry {
+  key: string;
+  body: unknown;
+  upstreamUrl: string;
+  storedAt: number;
+  expiresAt: number;
+}
+
+// Default time-to-live per endpoint type, in seconds. Search results change
+// as models are retrained; scores for a given pair of artworks rarely do.
+const DEFAULT_TTLS: Record<EndpointType, number> = {
+  search: 300,
+  nearest: 3600,
+  compare: 3600,
+  between: 3600,
+  analogy: 3600,
+  artwork: 3600,
+  other: 0,
+};
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+// TTL from AIC_CACHE_TTL_<TYPE> (seconds); 0 disables caching for that type
+export function cacheTtl(type: EndpointType): number {
+  return configured(`AIC_CACHE_TTL_${type.toUpperCase()}`, DEFAULT_TTLS[type]);
+}
+
+export function cacheTtls(): Record<EndpointType, number> {
+  return Object.fromEntries(ENDPOINT_TYPES.map((type) => [type, cacheTtl(type)])) as Record<EndpointType, number>;
+}
+
+export function cacheKey(envId: string, apiPath: string) {
+  return `${envId} ${apiPath}`;
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number, private directory?: string) {}
+
+  private filePath(key: string) {
+    return path.join(this.directory!, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  // Map iteration order is insertion order, so re-inserting on every read
+  // keeps the least recently used entry first
+  private remember(entry: CacheEntry) {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  async get(key: string, now = Date.now()): Promise<CacheEntry | undefined> {
+    let entry = this.entries.get(key);
+
+    if (!entry && this.directory) {
+      try {
+        entry = JSON.parse(await readFile(this.filePath(key), 'utf8')) as CacheEntry;
+      } catch {
+        entry = undefined;
+      }
+    }
+
+    if (!entry || entry.key !== key) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= now) {
+      await this.delete(key);
+      return undefined;
+    }
+
+    this.remember(entry);
+    return entry;
+  }
+
+  async set(key: string, body: unknown, upstreamUrl: string, ttlSeconds: number, now = Date.now()) {
+    const entry: CacheEntry = { key, body, upstreamUrl, storedAt: now, expiresAt: now + ttlSeconds * 1000 };
+    this.remember(entry);
+
+    if (this.directory) {
+      try {
+        await mkdir(this.directory, { recursive: true });
+        await writeFile(this.filePath(key), JSON.stringify(entry));
+      } catch (error) {
+        console.error('Failed to write cache entry:', error);
+      }
+    }
+
+    return entry;
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+    if (this.directory) {
+      await rm(this.filePath(key), { force: true });
+    }
+  }
+
+  // Remove every entry, or only those whose key starts with prefix.
+  // Returns the number of entries removed.
+  async purge(prefix = ''): Promise<number> {
+    const keys = new Set([...this.entries.keys()].filter((key) => key.startsWith(prefix)));
+
+    if (this.directory) {
+      let files: string[] = [];
+      try {
+        files = await readdir(this.directory);
+      } catch {
+        files = [];
+      }
+
+      await Promise.all(files.filter((file) => file.endsWith('.json')).map(async (file) => {
+        const filePath = path.join(this.directory!, file);
+        try {
+          const entry = JSON.parse(await readFile(filePath, 'utf8')) as CacheEntry;
+          if (entry.key.startsWith(prefix)) {
+            keys.add(entry.key);
+            await rm(filePath, { force: true });
+          }
+        } catch {
+          // Unreadable files aren't ours to count
+        }
+      }));
+    }
+
+    keys.forEach((key) => this.entries.delete(key));
+    return keys.size;
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+}
+
+// Shared across requests for the lifetime of the server process
+export const responseCache = new ResponseCache(
+  configured('AIC_CACHE_MAX_ENTRIES', DEFAULT_MAX_ENTRIES),
+  process.env.AIC_CACHE_DIR || undefined
+);
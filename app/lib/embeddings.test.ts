@@ -0,0 +1,319 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  EmbeddingsApiError,
+  MAX_HYBRID_DEPTH,
+  analogyPath,
+  artworkPath,
+  betweenPath,
+  compareArtworks,
+  comparePath,
+  describeError,
+  getArtwork,
+  isSearchResults,
+  isSimilarityResults,
+  nearestPath,
+  runEmbeddingsQuery,
+  searchArtworks,
+  searchPath,
+  type ArtworkItem,
+  type EmbeddingsQuery,
+  type SearchResults,
+  type SimilarityResults,
+} from './embeddings';
+
+function item(modelId: number, changes: Partial<ArtworkItem> = {}): ArtworkItem {
+  return {
+    id: modelId * 10,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    version: '1',
+    model_name: 'test',
+    model_id: modelId,
+    data: { description: `Artwork ${modelId}`, generated_at: '2024-01-01T00:00:00Z', image_url: '' },
+    embedding: {},
+    distance: '0.1',
+    embedding_type: 'text',
+    ...changes,
+  };
+}
+
+const SEARCH: SearchResults = { count: 2, items: [item(1), item(2)], model: 'test', id: null, total: 2 };
+const SIMILARITY: SimilarityResults = {
+  similarity_scores: [{ embedding_type: 'text', similarity_score: 0.8, items: { id1: 1, id2: 2 } }],
+};
+
+// Replace fetch with one answering every request with `response`
+function mockFetch(response: () => Response) {
+  const fetch = vi.fn<typeof globalThis.fetch>(async () => response());
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+// The API path a proxied request asked for
+function requestedPath(fetch: ReturnType<typeof mockFetch>, call = 0) {
+  const url = new URL(String(fetch.mock.calls[call][0]), 'http://localhost');
+  return url.searchParams.get('path');
+}
+
+describe('runEmbeddingsQuery', () => {
+  it.each<[string, EmbeddingsQuery, string]>([
+    ['an empty search', { type: 'semantic', query: '  ' }, 'Search query is required'],
+    ['a nearest search without an id', { type: 'nearest_neighbor', id: '' }, 'Artwork ID is required'],
+    ['a compare without a second id', { type: 'compare', id: '1', compareId: ' ', firstType: 'text', secondType: 'text' },
+      'Both artwork IDs are required for compare search'],
+    ['a between without a first id', { type: 'between', id: '', compareId: '2', comparisonType: 'text' },
+      'Both artwork IDs are required for between search'],
+    ['an image search without an image', { type: 'image', image: null, imageUrl: 'ftp://example.com/a.jpg' },
+      'An image or an http(s) image URL is required'],
+    ['an image search with an unsupported file', { type: 'image', image: new Blob(['x'], { type: 'text/plain' }), imageUrl: '' },
+      'Unsupported image type text/plain; use JPEG, PNG, WebP or GIF'],
+    ['an analogy without terms', { type: 'analogy', terms: [] }, 'Add at least one artwork or text term'],
+  ])('refuses %s without calling the API', async (_, query, message) => {
+    const fetch = mockFetch(() => Response.json(SEARCH));
+
+    const result = runEmbeddingsQuery(query);
+    await expect(result).rejects.toThrow(message);
+    await expect(result).rejects.not.toBeInstanceOf(EmbeddingsApiError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('trims ids and queries and goes through the proxy for the environment', async () => {
+    const fetch = mockFetch(() => Response.json(SEARCH, { headers: { 'X-Upstream-Url': 'https://api.example.com/search' } }));
+
+    const result = await runEmbeddingsQuery({ type: 'semantic', query: '  winter  ', limit: 10 }, { env: 'test' });
+
+    expect(result).toEqual({ kind: 'search', data: SEARCH, upstreamUrl: 'https://api.example.com/search', modality: 'default' });
+    const url = new URL(String(fetch.mock.calls[0][0]), 'http://localhost');
+    expect(url.pathname).toBe('/api/artwork');
+    expect(url.searchParams.get('env')).toBe('test');
+    expect(url.searchParams.get('path')).toBe('/ai/v1/artworks/search?q=winter&limit=10');
+  });
+
+  it('runs each query type against its endpoint', async () => {
+    const fetch = mockFetch(() => Response.json(SEARCH));
+
+    await runEmbeddingsQuery({ type: 'nearest_neighbor', id: ' 12 ', offset: 30 });
+    await runEmbeddingsQuery({ type: 'between', id: '1', compareId: '2', comparisonType: 'image' });
+    await runEmbeddingsQuery({ type: 'analogy', terms: [{ kind: 'text', value: 'sea', weight: 1 }] });
+
+    expect(requestedPath(fetch, 0)).toBe('/ai/v1/artworks/12/nearest?limit=30&offset=30');
+    expect(requestedPath(fetch, 1)).toBe('/ai/v1/image/artworks/1/between/artworks/2');
+    expect(requestedPath(fetch, 2)).toMatch(/^\/ai\/v1\/artworks\/analogy\?terms=/);
+  });
+
+  it('uses a custom transport instead of the proxy', async () => {
+    const fetch = mockFetch(() => Response.json(SEARCH));
+    const transport = vi.fn(async () => Response.json(SIMILARITY));
+
+    const result = await runEmbeddingsQuery(
+      { type: 'compare', id: '1', compareId: '2', firstType: 'text', secondType: 'image' },
+      { transport }
+    );
+
+    expect(result.kind).toBe('similarity');
+    expect(transport).toHaveBeenCalledWith('/ai/v1/text/artworks/1/compare/image/artworks/2', undefined);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('response guards', () => {
+  it('recognizes search results', () => {
+    expect(isSearchResults(SEARCH)).toBe(true);
+    expect(isSearchResults({ ...SEARCH, items: [] })).toBe(true);
+    expect(isSearchResults({ ...SEARCH, count: '2' })).toBe(false);
+    expect(isSearchResults({ ...SEARCH, items: [{ ...item(1), model_id: '1' }] })).toBe(false);
+    expect(isSearchResults({ ...SEARCH, items: [{ ...item(1), data: null }] })).toBe(false);
+    expect(isSearchResults(SIMILARITY)).toBe(false);
+    expect(isSearchResults(null)).toBe(false);
+    expect(isSearchResults([SEARCH])).toBe(false);
+  });
+
+  it('recognizes similarity results', () => {
+    const [score] = SIMILARITY.similarity_scores;
+    expect(isSimilarityResults(SIMILARITY)).toBe(true);
+    expect(isSimilarityResults({ similarity_scores: [] })).toBe(true);
+    expect(isSimilarityResults({ similarity_scores: [{ ...score, similarity_score: '0.8' }] })).toBe(false);
+    expect(isSimilarityResults({ similarity_scores: [{ ...score, items: { id1: 1 } }] })).toBe(false);
+    expect(isSimilarityResults({ similarity_scores: {} })).toBe(false);
+    expect(isSimilarityResults(SEARCH)).toBe(false);
+    expect(isSimilarityResults(undefined)).toBe(false);
+  });
+});
+
+describe('errors', () => {
+  it('maps a body that is not JSON to INVALID_RESPONSE', async () => {
+    mockFetch(() => new Response('<html>Bad Gateway</html>', { status: 502 }));
+
+    const result = searchArtworks('sea');
+    await expect(result).rejects.toBeInstanceOf(EmbeddingsApiError);
+    await expect(result).rejects.toMatchObject({
+      code: 'INVALID_RESPONSE',
+      message: 'Response was not valid JSON',
+      status: 502,
+      upstreamUrl: '/ai/v1/artworks/search?q=sea&limit=30',
+    });
+  });
+
+  it('maps proxy errors to their code, message and upstream status', async () => {
+    mockFetch(() => Response.json(
+      { code: 'UPSTREAM_UNAVAILABLE', message: 'Service Unavailable', upstreamStatus: 503 },
+      { status: 502, headers: { 'X-Upstream-Url': 'https://api.example.com/ai/v1/artworks/search' } }
+    ));
+
+    const error = await searchArtworks('sea').catch((err: unknown) => err);
+    expect(error).toMatchObject({
+      code: 'UPSTREAM_UNAVAILABLE',
+      message: 'Service Unavailable',
+      status: 502,
+      upstreamStatus: 503,
+      upstreamUrl: 'https://api.example.com/ai/v1/artworks/search',
+    });
+    expect(describeError(error)).toEqual({
+      message: 'The embeddings API failed to answer (HTTP 503): Service Unavailable',
+      retryable: true,
+    });
+  });
+
+  it('takes the message from other error shapes', async () => {
+    mockFetch(() => Response.json({ detail: 'Artwork 5 not found' }, { status: 404 }));
+
+    await expect(getArtwork('5')).rejects.toMatchObject({ code: 'UPSTREAM_ERROR', message: 'Artwork 5 not found', status: 404, upstreamStatus: undefined });
+  });
+
+  it('refuses a response of the wrong kind', async () => {
+    mockFetch(() => Response.json(SEARCH));
+    await expect(compareArtworks('1', '2', 'text', 'text')).rejects.toMatchObject({
+      code: 'INVALID_RESPONSE',
+      message: 'Expected similarity results from embeddings API',
+    });
+
+    mockFetch(() => Response.json(SIMILARITY));
+    await expect(searchArtworks('sea')).rejects.toMatchObject({
+      code: 'INVALID_RESPONSE',
+      message: 'Expected search results from embeddings API',
+    });
+  });
+
+  it('refuses a response of no known shape', async () => {
+    mockFetch(() => Response.json({ results: [] }));
+    await expect(searchArtworks('sea')).rejects.toMatchObject({
+      code: 'INVALID_RESPONSE',
+      message: 'Unexpected response shape from embeddings API',
+      status: 200,
+    });
+  });
+});
+
+describe('hybrid search', () => {
+  it('fuses both indexes up to a fixed depth', async () => {
+    const fetch = mockFetch(() => Response.json({ ...SEARCH, total: 5000 }));
+
+    const result = await searchArtworks('sea', { modality: 'hybrid', limit: 50, offset: 80 });
+
+    expect(requestedPath(fetch, 0)).toBe(`/ai/v1/text/artworks/search?q=sea&limit=${MAX_HYBRID_DEPTH}`);
+    expect(requestedPath(fetch, 1)).toBe(`/ai/v1/image/artworks/search?q=sea&limit=${MAX_HYBRID_DEPTH}`);
+    expect(result.data.total).toBe(MAX_HYBRID_DEPTH);
+  });
+
+  it('returns an empty page past the depth', async () => {
+    mockFetch(() => Response.json(SEARCH));
+
+    const result = await searchArtworks('sea', { modality: 'hybrid', limit: 30, offset: MAX_HYBRID_DEPTH });
+    expect(result.data.items).toEqual([]);
+  });
+});
+
+describe('rate limiting', () => {
+  it('waits out the proxy rate limit and tries again', async () => {
+    vi.useFakeTimers();
+    let calls = 0;
+    const fetch = mockFetch(() => ++calls === 1
+      ? Response.json({ code: 'RATE_LIMITED', message: 'Too many requests; retry in 2s' }, { status: 429, headers: { 'Retry-After': '2' } })
+      : Response.json(SEARCH));
+
+    const result = searchArtworks('sea');
+    await vi.advanceTimersByTimeAsync(1900);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(600);
+
+    expect((await result).data).toEqual(SEARCH);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+
+  it('stops waiting when the request is aborted', async () => {
+    const fetch = mockFetch(() => Response.json({ code: 'RATE_LIMITED', message: 'Too many requests' }, { status: 429, headers: { 'Retry-After': '30' } }));
+    const controller = new AbortController();
+
+    const result = expect(searchArtworks('sea', {}, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    controller.abort();
+
+    await result;
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports the rate limit straight away when told not to wait', async () => {
+    const fetch = mockFetch(() => Response.json({ code: 'RATE_LIMITED', message: 'Too many requests' }, { status: 429, headers: { 'Retry-After': '30' } }));
+
+    await expect(searchArtworks('sea', {}, { waitForRateLimit: false })).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports upstream rate limiting without retrying', async () => {
+    const fetch = mockFetch(() => Response.json({ code: 'UPSTREAM_RATE_LIMITED', message: 'Slow down', upstreamStatus: 429 }, { status: 429 }));
+
+    await expect(searchArtworks('sea')).rejects.toMatchObject({ code: 'UPSTREAM_RATE_LIMITED', status: 429 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getArtwork', () => {
+  it('accepts the item itself or a one-item result list', async () => {
+    mockFetch(() => Response.json(item(7)));
+    expect((await getArtwork('7')).item.model_id).toBe(7);
+
+    mockFetch(() => Response.json({ ...SEARCH, count: 1, items: [item(8)] }));
+    expect((await getArtwork('8')).item.model_id).toBe(8);
+  });
+
+  it('reports an empty result list as not found', async () => {
+    mockFetch(() => Response.json({ ...SEARCH, count: 0, items: [] }));
+    await expect(getArtwork('9')).rejects.toMatchObject({ code: 'INVALID_RESPONSE', message: 'Artwork 9 was not found' });
+  });
+});
+
+describe('paths', () => {
+  it('encodes ids and queries', () => {
+    expect(artworkPath('12/../34')).toBe('/ai/v1/artworks/12%2F..%2F34');
+    expect(searchPath('cats & dogs')).toBe('/ai/v1/artworks/search?q=cats%20%26%20dogs&limit=30');
+    expect(comparePath('1', '2?x', 'text', 'image')).toBe('/ai/v1/text/artworks/1/compare/image/artworks/2%3Fx');
+    expect(betweenPath('1', '2', 'image')).toBe('/ai/v1/image/artworks/1/between/artworks/2');
+  });
+
+  it('adds paging, leaving out a zero offset', () => {
+    expect(searchPath('sea', { limit: 10, offset: 0 })).toBe('/ai/v1/artworks/search?q=sea&limit=10');
+    expect(searchPath('sea', { limit: 10, offset: 20 }, 'image')).toBe('/ai/v1/image/artworks/search?q=sea&limit=10&offset=20');
+  });
+
+  it('picks the nearest neighbor endpoint for the vector and index', () => {
+    expect(nearestPath('5')).toBe('/ai/v1/artworks/5/nearest?limit=30');
+    expect(nearestPath('5', {}, undefined, 'image')).toBe('/ai/v1/image/artworks/5/nearest/image?limit=30');
+    expect(nearestPath('5', {}, 'image', 'text')).toBe('/ai/v1/image/artworks/5/nearest/text?limit=30');
+  });
+
+  it('encodes analogy terms as JSON', () => {
+    const path = analogyPath([
+      { kind: 'artwork', value: ' 1002 ', weight: 1 },
+      { kind: 'text', value: 'winter', weight: -1 },
+    ], { limit: 5 });
+    const [pathname, query] = path.split('?');
+    const params = new URLSearchParams(query);
+
+    expect(pathname).toBe('/ai/v1/artworks/analogy');
+    expect(params.get('limit')).toBe('5');
+    expect(JSON.parse(params.get('terms')!)).toEqual([
+      { type: 'artwork', value: '1002', weight: 1 },
+      { type: 'text', value: 'winter', weight: -1 },
+    ]);
+  });
+});
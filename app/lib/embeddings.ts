@@ -0,0 +1,645 @@
+// Typed client for the AIC embeddings API (/ai/v1/...). By default requests
+// go through the /api/artwork proxy; server code can pass its own transport.
+
+import { validateAnalogy, type AnalogyTerm } from './analogy';
+import { sleep } from './concurrency';
+import { fuseRankings } from './fusion';
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface VisionTag {
+  name: string;
+  confidence: number;
+}
+
+export interface ArtworkItem {
+  id: number;
+  created_at: string;
+  updated_at: string;
+  version: string;
+  model_name: string;
+  model_id: number;
+  data: {
+    description: string;
+    generated_at: string;
+    image_url: string;
+  };
+  embedding: Record<string, unknown>;
+  distance: string;
+  embedding_type: string;
+  image_embedding_data?: {
+    description_generation_data: {
+      analysis_data: {
+        caption: string;
+        denseCaption: Array<{
+          text: string;
+          confidence: number;
+          boundingBox: BoundingBox;
+        }>;
+        tags: VisionTag[];
+        objects: Array<{
+          boundingBox: BoundingBox;
+          tags: VisionTag[];
+        }>;
+        peopleLocation: Array<{
+          boundingBox: BoundingBox;
+          confidence: number;
+        }>;
+      };
+      aic_description: string | null;
+    };
+    description: string;
+    generated_at: string;
+    image_url: string;
+  };
+}
+
+export interface SimilarityScore {
+  embedding_type: string;
+  similarity_score: number;
+  items: {
+    id1: number;
+    id2: number;
+  };
+}
+
+export interface SimilarityResults {
+  similarity_scores: SimilarityScore[];
+}
+
+export interface SearchResults {
+  count: number;
+  items: ArtworkItem[];
+  model: string;
+  id: null;
+  total: number;
+}
+
+export type QueryType = 'semantic' | 'nearest_neighbor' | 'compare' | 'between' | 'image' | 'analogy';
+export type ComparisonType = 'text' | 'image';
+
+export const QUERY_TYPES: QueryType[] = ['semantic', 'nearest_neighbor', 'compare', 'between', 'image', 'analogy'];
+export const COMPARISON_TYPES: ComparisonType[] = ['text', 'image'];
+
+// Which vector index a search runs against. "default" leaves the choice to
+// the API; "hybrid" queries both indexes and fuses the rankings.
+export type SearchModality = 'default' | ComparisonType | 'hybrid';
+
+export const SEARCH_MODALITIES: SearchModality[] = ['default', 'text', 'image', 'hybrid'];
+export const DEFAULT_IMAGE_WEIGHT = 0.5;
+
+export interface ModalityOptions {
+  modality?: SearchModality;
+  // Weight of the image-index ranking in hybrid search, 0-1; text gets the rest
+  imageWeight?: number;
+}
+
+export type EmbeddingsResult =
+  // matches lists the indexes each artwork (by model_id) was found in
+  | { kind: 'search'; data: SearchResults; upstreamUrl: string; modality?: SearchModality; matches?: Record<number, ComparisonType[]> }
+  | { kind: 'similarity'; data: SimilarityResults; upstreamUrl: string };
+
+export interface PageOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export type EmbeddingsQuery =
+  | ({ type: 'semantic'; query: string } & PageOptions & ModalityOptions)
+  | ({ type: 'nearest_neighbor'; id: string; sourceType?: ComparisonType } & PageOptions & ModalityOptions)
+  | { type: 'compare'; id: string; compareId: string; firstType: ComparisonType; secondType: ComparisonType }
+  | { type: 'between'; id: string; compareId: string; comparisonType: ComparisonType }
+  | ({ type: 'image'; image: Blob | null; imageUrl: string } & PageOptions)
+  | ({ type: 'analogy'; terms: AnalogyTerm[] } & PageOptions);
+
+// Flat form/URL fields that make up a query, whichever type is selected
+export interface QueryFields {
+  query: string;
+  id: string;
+  compareId: string;
+  comparisonType: ComparisonType;
+  firstType: ComparisonType;
+  secondType: ComparisonType;
+  modality?: SearchModality;
+  imageWeight?: number;
+  sourceType?: ComparisonType;
+  image?: Blob | null;
+  imageUrl?: string;
+  terms?: AnalogyTerm[];
+  limit?: number;
+  offset?: number;
+}
+
+export function toEmbeddingsQuery(type: QueryType, fields: QueryFields): EmbeddingsQuery {
+  switch (type) {
+    case 'semantic':
+      return {
+        type,
+        query: fields.query,
+        modality: fields.modality,
+        imageWeight: fields.imageWeight,
+        limit: fields.limit,
+        offset: fields.offset,
+      };
+    case 'nearest_neighbor':
+      return {
+        type,
+        id: fields.id,
+        sourceType: fields.sourceType,
+        modality: fields.modality,
+        imageWeight: fields.imageWeight,
+        limit: fields.limit,
+        offset: fields.offset,
+      };
+    case 'compare':
+      return { type, id: fields.id, compareId: fields.compareId, firstType: fields.firstType, secondType: fields.secondType };
+    case 'between':
+      return { type, id: fields.id, compareId: fields.compareId, comparisonType: fields.comparisonType };
+    case 'image':
+      return { type, image: fields.image ?? null, imageUrl: fields.imageUrl ?? '', limit: fields.limit, offset: fields.offset };
+    case 'analogy':
+      return { type, terms: fields.terms ?? [], limit: fields.limit, offset: fields.offset };
+  }
+}
+
+// Resolves an API path (e.g. "/ai/v1/artworks/search?q=...") to a response.
+export type EmbeddingsTransport = (apiPath: string, signal?: AbortSignal) => Promise<Response>;
+
+export interface EmbeddingsClientOptions {
+  // Proxy environment id; ignored when a custom transport is given
+  env?: string;
+  transport?: EmbeddingsTransport;
+  signal?: AbortSignal;
+  // Wait out the proxy's rate limit and try again (default true)
+  waitForRateLimit?: boolean;
+}
+
+export class EmbeddingsApiError extends Error {
+  code: string;
+  status?: number;
+  upstreamUrl?: string;
+  upstreamStatus?: number;
+
+  constructor(code: string, message: string, status?: number, upstreamUrl?: string, upstreamStatus?: number) {
+    super(message);
+    this.name = 'EmbeddingsApiError';
+    this.code = code;
+    this.status = status;
+    this.upstreamUrl = upstreamUrl;
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+export interface ErrorDescription {
+  message: string;
+  // Whether running the same query again might succeed
+  retryable: boolean;
+}
+
+// A message for the user for a failed query. Validation errors from
+// runEmbeddingsQuery are plain Errors and shown as they are.
+export function describeError(err: unknown): ErrorDescription {
+  if (err instanceof EmbeddingsApiError) {
+    const status = err.upstreamStatus ? ` (HTTP ${err.upstreamStatus})` : '';
+    switch (err.code) {
+      case 'RATE_LIMITED':
+        return { message: err.message, retryable: true };
+      case 'UPSTREAM_RATE_LIMITED':
+        return { message: 'The embeddings API is rate limiting requests; wait a moment before retrying.', retryable: true };
+      case 'UPSTREAM_TIMEOUT':
+        return { message: `${err.message}. It may be busy or the query may be too expensive.`, retryable: true };
+      case 'UPSTREAM_UNREACHABLE':
+        return { message: 'Could not reach the embeddings API for this environment. Check that it is running.', retryable: true };
+      case 'UPSTREAM_UNAVAILABLE':
+        return { message: `The embeddings API failed to answer${status}: ${err.message}`, retryable: true };
+      case 'UPSTREAM_INVALID_RESPONSE':
+      case 'INVALID_RESPONSE':
+        return { message: `The embeddings API returned an unexpected response${status}.`, retryable: true };
+      case 'UPSTREAM_NOT_FOUND':
+        return { message: `Not found: ${err.message}`, retryable: false };
+      case 'PROXY_ERROR':
+        return { message: 'The search proxy failed unexpectedly.', retryable: true };
+      default:
+        return { message: err.message, retryable: (err.status ?? 0) >= 500 };
+    }
+  }
+
+  // fetch() rejects with a TypeError when the app's own server is unreachable
+  if (err instanceof TypeError) {
+    return { message: 'Could not reach the server. Check your connection.', retryable: true };
+  }
+
+  return { message: err instanceof Error ? err.message : 'Failed to fetch results', retryable: false };
+}
+
+export const DEFAULT_PAGE_SIZE = 30;
+
+// Bounds on the page a search may ask for. Search links are run on the
+// server, so the proxy refuses anything past these as well as the UI.
+export const MAX_PAGE_SIZE = 100;
+export const MAX_OFFSET = 1000;
+
+// Whether the limit and offset parameters of an API path are within bounds
+export function isPageInRange(params: URLSearchParams) {
+  const limit = params.get('limit');
+  const offset = params.get('offset');
+  return (limit === null || Number(limit) <= MAX_PAGE_SIZE) && (offset === null || Number(offset) <= MAX_OFFSET);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function isArtworkItem(value: unknown): value is ArtworkItem {
+  return isRecord(value)
+    && typeof value.id === 'number'
+    && typeof value.model_id === 'number'
+    && typeof value.embedding_type === 'string'
+    && isRecord(value.data);
+}
+
+export function isSearchResults(value: unknown): value is SearchResults {
+  return isRecord(value)
+    && typeof value.count === 'number'
+    && Array.isArray(value.items)
+    && value.items.every(isArtworkItem);
+}
+
+export function isSimilarityScore(value: unknown): value is SimilarityScore {
+  return isRecord(value)
+    && typeof value.embedding_type === 'string'
+    && typeof value.similarity_score === 'number'
+    && isRecord(value.items)
+    && typeof value.items.id1 === 'number'
+    && typeof value.items.id2 === 'number';
+}
+
+export function isSimilarityResults(value: unknown): value is SimilarityResults {
+  return isRecord(value)
+    && Array.isArray(value.similarity_scores)
+    && value.similarity_scores.every(isSimilarityScore);
+}
+
+// Route requests through the /api/artwork proxy. Scripts running outside the
+// browser pass the app's origin, e.g. "http://localhost:3000".
+export function proxyTransport(env?: string, origin = ''): EmbeddingsTransport {
+  return (apiPath, signal) => {
+    const params = new URLSearchParams({ path: apiPath });
+    if (env) {
+      params.set('env', env);
+    }
+    return fetch(`${origin}/api/artwork?${params.toString()}`, { signal });
+  };
+}
+
+// Requests the proxy's rate limiter refuses are tried again once its
+// Retry-After has passed, so pages that fan out into many calls (the
+// similarity matrix, evaluation runs, hybrid search) slow down rather than
+// lose results. Upstream 429s carry no Retry-After; the proxy has already
+// retried those.
+const MAX_RATE_LIMIT_RETRIES = 10;
+const MAX_RATE_LIMIT_WAIT_MS = 60000;
+
+// How long a rate-limited response asks to wait, or null for any other response
+function rateLimitWait(response: Response) {
+  const seconds = parseInt(response.headers.get('Retry-After') ?? '', 10);
+  if (response.status !== 429 || !Number.isFinite(seconds)) {
+    return null;
+  }
+  // Jitter keeps concurrent callers from all retrying at the same moment
+  return Math.min(seconds * 1000, MAX_RATE_LIMIT_WAIT_MS) + Math.random() * 500;
+}
+
+async function requestJson(apiPath: string, options: EmbeddingsClientOptions) {
+  const transport = options.transport ?? proxyTransport(options.env);
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await transport(apiPath, options.signal);
+    const wait = rateLimitWait(response);
+    if (wait === null || attempt >= MAX_RATE_LIMIT_RETRIES || options.waitForRateLimit === false) {
+      return parseJson(response, apiPath);
+    }
+    await sleep(wait, options.signal);
+  }
+}
+
+async function parseJson(response: Response, fallbackUrl: string) {
+  const upstreamUrl = response.headers.get('X-Upstream-Url') || fallbackUrl;
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new EmbeddingsApiError('INVALID_RESPONSE', 'Response was not valid JSON', response.status, upstreamUrl);
+  }
+
+  if (!response.ok) {
+    const body = isRecord(data) ? data : {};
+    const message = [body.message, body.error, body.detail].find((value) => typeof value === 'string' && value);
+    const code = typeof body.code === 'string' ? body.code : 'UPSTREAM_ERROR';
+    const upstreamStatus = typeof body.upstreamStatus === 'number' ? body.upstreamStatus : undefined;
+    throw new EmbeddingsApiError(code, String(message ?? 'Failed to fetch results'), response.status, upstreamUrl, upstreamStatus);
+  }
+
+  return { data, upstreamUrl, status: response.status };
+}
+
+async function request(apiPath: string, options: EmbeddingsClientOptions): Promise<EmbeddingsResult> {
+  return toResult(await requestJson(apiPath, options));
+}
+
+function toResult({ data, upstreamUrl, status }: { data: unknown; upstreamUrl: string; status: number }): EmbeddingsResult {
+  if (isSearchResults(data)) {
+    return { kind: 'search', data, upstreamUrl };
+  }
+
+  if (isSimilarityResults(data)) {
+    return { kind: 'similarity', data, upstreamUrl };
+  }
+
+  throw new EmbeddingsApiError('INVALID_RESPONSE', 'Unexpected response shape from embeddings API', status, upstreamUrl);
+}
+
+function expectKind<K extends EmbeddingsResult['kind']>(result: EmbeddingsResult, kind: K) {
+  if (result.kind !== kind) {
+    throw new EmbeddingsApiError('INVALID_RESPONSE', `Expected ${kind} results from embeddings API`, undefined, result.upstreamUrl);
+  }
+  return result as Extract<EmbeddingsResult, { kind: K }>;
+}
+
+function pageParams({ limit = DEFAULT_PAGE_SIZE, offset = 0 }: PageOptions) {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (offset > 0) {
+    params.set('offset', String(offset));
+  }
+  return params.toString();
+}
+
+export type EndpointType = 'search' | 'nearest' | 'compare' | 'between' | 'analogy' | 'artwork' | 'other';
+
+export const ENDPOINT_TYPES: EndpointType[] = ['search', 'nearest', 'compare', 'between', 'analogy', 'artwork', 'other'];
+
+// Classify an API path by the endpoint it calls, e.g. for cache TTLs
+export function endpointType(apiPath: string): EndpointType {
+  const pathname = apiPath.split('?')[0];
+
+  if (/\/artworks\/search$/.test(pathname)) {
+    return 'search';
+  }
+  if (/\/nearest(\/\w+)?$/.test(pathname)) {
+    return 'nearest';
+  }
+  if (/\/compare\//.test(pathname)) {
+    return 'compare';
+  }
+  if (/\/between\//.test(pathname)) {
+    return 'between';
+  }
+  if (/\/artworks\/analogy$/.test(pathname)) {
+    return 'analogy';
+  }
+  if (/\/artworks\/[^/]+$/.test(pathname)) {
+    return 'artwork';
+  }
+  return 'other';
+}
+
+// Image search is a multipart POST, which the proxy forwards to this path
+export const IMAGE_SEARCH_PATH = '/ai/v1/artworks/search/image';
+export const IMAGE_SEARCH_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Check an uploaded image before sending it; returns an error message or null
+export function validateImage(image: Blob, maxBytes = MAX_IMAGE_BYTES): string | null {
+  if (!IMAGE_SEARCH_MIME_TYPES.includes(image.type)) {
+    return `Unsupported image type${image.type ? ` ${image.type}` : ''}; use JPEG, PNG, WebP or GIF`;
+  }
+  if (image.size > maxBytes) {
+    return `Image is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`;
+  }
+  return null;
+}
+
+export function artworkPath(id: string) {
+  return `/ai/v1/artworks/${encodeURIComponent(id)}`;
+}
+
+// A text query against the given vector index, or the API's default index
+export function searchPath(query: string, page: PageOptions = {}, index?: ComparisonType) {
+  return `/ai/v1/${index ? `${index}/` : ''}artworks/search?q=${encodeURIComponent(query)}&${pageParams(page)}`;
+}
+
+// Neighbors of one of an artwork's vectors within the given index, e.g. its
+// image vector against the text index for artwork-to-text search
+export function nearestPath(id: string, page: PageOptions = {}, sourceType?: ComparisonType, index?: ComparisonType) {
+  if (!sourceType && !index) {
+    return `/ai/v1/artworks/${encodeURIComponent(id)}/nearest?${pageParams(page)}`;
+  }
+  const source = sourceType ?? index!;
+  return `/ai/v1/${source}/artworks/${encodeURIComponent(id)}/nearest/${index ?? source}?${pageParams(page)}`;
+}
+
+export function comparePath(id: string, compareId: string, firstType: ComparisonType, secondType: ComparisonType) {
+  return `/ai/v1/${firstType}/artworks/${encodeURIComponent(id)}/compare/${secondType}/artworks/${encodeURIComponent(compareId)}`;
+}
+
+export function betweenPath(id: string, compareId: string, comparisonType: ComparisonType) {
+  return `/ai/v1/${comparisonType}/artworks/${encodeURIComponent(id)}/between/artworks/${encodeURIComponent(compareId)}`;
+}
+
+// The API combines the weighted artwork and text vectors and returns the
+// nearest neighbors of the result
+export function analogyPath(terms: AnalogyTerm[], page: PageOptions = {}) {
+  const encoded = terms.map((term) => ({ type: term.kind, value: term.value.trim(), weight: term.weight }));
+  return `/ai/v1/artworks/analogy?terms=${encodeURIComponent(JSON.stringify(encoded))}&${pageParams(page)}`;
+}
+
+// Fetch a single artwork's embedding record. The API may return the item
+// itself or wrap it in a one-item result list.
+export async function getArtwork(id: string, options: EmbeddingsClientOptions = {}) {
+  const { data, upstreamUrl, status } = await requestJson(artworkPath(id), options);
+  const item = isSearchResults(data) ? data.items[0] : data;
+
+  if (!isArtworkItem(item)) {
+    throw new EmbeddingsApiError('INVALID_RESPONSE', `Artwork ${id} was not found`, status, upstreamUrl);
+  }
+
+  return { item, upstreamUrl };
+}
+
+type SearchResult = Extract<EmbeddingsResult, { kind: 'search' }>;
+
+// Deepest result hybrid search ranks. Both lists are fetched from the top,
+// so this bounds the size of every request; pages past it are empty.
+export const MAX_HYBRID_DEPTH = MAX_PAGE_SIZE;
+
+// Run one search per index and merge the rankings. Both lists are fetched
+// from the top so the fused page is ranked consistently across pages.
+async function hybridSearch(
+  search: (index: ComparisonType, page: PageOptions) => Promise<SearchResult>,
+  { limit = DEFAULT_PAGE_SIZE, offset = 0 }: PageOptions,
+  imageWeight = DEFAULT_IMAGE_WEIGHT
+): Promise<SearchResult> {
+  const weight = Math.min(1, Math.max(0, imageWeight));
+  const [text, image] = await Promise.all(
+    COMPARISON_TYPES.map((index) => search(index, { limit: Math.min(offset + limit, MAX_HYBRID_DEPTH) }))
+  );
+
+  const fused = fuseRankings([
+    { modality: 'text', items: text.data.items, weight: 1 - weight },
+    { modality: 'image', items: image.data.items, weight },
+  ]);
+  const items = fused.slice(offset, offset + limit);
+
+  return {
+    kind: 'search',
+    data: {
+      ...text.data,
+      count: items.length,
+      items: items.map((entry) => entry.item),
+      total: Math.min(Math.max(text.data.total ?? text.data.count, image.data.total ?? image.data.count), MAX_HYBRID_DEPTH),
+    },
+    upstreamUrl: `${text.upstreamUrl}\n${image.upstreamUrl}`,
+    modality: 'hybrid',
+    matches: Object.fromEntries(items.map((entry) => [entry.item.model_id, entry.modalities])),
+  };
+}
+
+export async function searchArtworks(
+  query: string,
+  page: PageOptions & ModalityOptions = {},
+  options: EmbeddingsClientOptions = {}
+): Promise<SearchResult> {
+  const { modality = 'default' } = page;
+  if (modality === 'hybrid') {
+    return hybridSearch((index, indexPage) => searchArtworks(query, { ...indexPage, modality: index }, options), page, page.imageWeight);
+  }
+
+  const index = modality === 'default' ? undefined : modality;
+  const result = expectKind(await request(searchPath(query, page, index), options), 'search');
+  return { ...result, modality };
+}
+
+// sourceType picks which of the artwork's vectors to start from; the
+// modality picks the index searched
+export async function nearestArtworks(
+  id: string,
+  page: PageOptions & ModalityOptions & { sourceType?: ComparisonType } = {},
+  options: EmbeddingsClientOptions = {}
+): Promise<SearchResult> {
+  const { modality = 'default', sourceType } = page;
+  if (modality === 'hybrid') {
+    return hybridSearch((index, indexPage) => nearestArtworks(id, { ...indexPage, sourceType, modality: index }, options), page, page.imageWeight);
+  }
+
+  const index = modality === 'default' ? undefined : modality;
+  const result = expectKind(await request(nearestPath(id, page, index && sourceType, index), options), 'search');
+  return { ...result, modality };
+}
+
+export async function analogyArtworks(terms: AnalogyTerm[], page: PageOptions = {}, options: EmbeddingsClientOptions = {}) {
+  return expectKind(await request(analogyPath(terms, page), options), 'search');
+}
+
+// Search by an uploaded image or an image URL. This always goes through the
+// proxy's multipart image endpoint; a custom transport doesn't apply.
+export async function searchByImage(
+  image: Blob | null,
+  imageUrl: string,
+  page: PageOptions = {},
+  options: EmbeddingsClientOptions & { origin?: string } = {}
+) {
+  const body = new FormData();
+  if (image) {
+    body.set('image', image);
+  } else {
+    body.set('imageUrl', imageUrl);
+  }
+  body.set('limit', String(page.limit ?? DEFAULT_PAGE_SIZE));
+  if (page.offset) {
+    body.set('offset', String(page.offset));
+  }
+  if (options.env) {
+    body.set('env', options.env);
+  }
+
+  const response = await fetch(`${options.origin ?? ''}/api/artwork/image`, {
+    method: 'POST',
+    body,
+    signal: options.signal,
+  });
+  return expectKind(toResult(await parseJson(response, IMAGE_SEARCH_PATH)), 'search');
+}
+
+export async function compareArtworks(
+  id: string,
+  compareId: string,
+  firstType: ComparisonType,
+  secondType: ComparisonType,
+  options: EmbeddingsClientOptions = {}
+) {
+  return expectKind(await request(comparePath(id, compareId, firstType, secondType), options), 'similarity');
+}
+
+export async function betweenArtworks(
+  id: string,
+  compareId: string,
+  comparisonType: ComparisonType,
+  options: EmbeddingsClientOptions = {}
+) {
+  return request(betweenPath(id, compareId, comparisonType), options);
+}
+
+// Validate a query from the form or a shared link and run it against the
+// matching endpoint.
+export async function runEmbeddingsQuery(query: EmbeddingsQuery, options: EmbeddingsClientOptions = {}): Promise<EmbeddingsResult> {
+  switch (query.type) {
+    case 'semantic':
+      if (!query.query.trim()) {
+        throw new Error('Search query is required');
+      }
+      return searchArtworks(query.query.trim(), query, options);
+    case 'nearest_neighbor':
+      if (!query.id.trim()) {
+        throw new Error('Artwork ID is required');
+      }
+      return nearestArtworks(query.id.trim(), query, options);
+    case 'compare':
+      if (!query.id.trim() || !query.compareId.trim()) {
+        throw new Error('Both artwork IDs are required for compare search');
+      }
+      return compareArtworks(query.id.trim(), query.compareId.trim(), query.firstType, query.secondType, options);
+    case 'between':
+      if (!query.id.trim() || !query.compareId.trim()) {
+        throw new Error('Both artwork IDs are required for between search');
+      }
+      return betweenArtworks(query.id.trim(), query.compareId.trim(), query.comparisonType, options);
+    case 'image': {
+      if (query.image) {
+        const invalid = validateImage(query.image);
+        if (invalid) {
+          throw new Error(invalid);
+        }
+        return searchByImage(query.image, '', query, options);
+      }
+      if (!/^https?:\/\//.test(query.imageUrl.trim())) {
+        throw new Error('An image or an http(s) image URL is required');
+      }
+      return searchByImage(null, query.imageUrl.trim(), query, options);
+    }
+    case 'analogy': {
+      const invalid = validateAnalogy(query.terms);
+      if (invalid) {
+        throw new Error(invalid);
+      }
+      return analogyArtworks(query.terms, query, options);
+    }
+    default:
+      throw new Error('Invalid search type');
+  }
+}
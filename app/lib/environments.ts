@@ -0,0 +1,128 @@
+// Upstream API environments the /api/artwork proxy is allowed to talk to.
+// Tokens are only ever read here, on the server, and never sent to the client.
+
+import { mockApiEnabled } from './mockApi';
+
+export interface ApiEnvironment {
+  id: string;
+  label: string;
+  baseUrl: string;
+}
+
+export interface ApiEnvironmentList {
+  environments: ApiEnvironment[];
+  defaultEnvironment: string;
+}
+
+interface ApiEnvironmentConfig extends ApiEnvironment {
+  token?: string;
+}
+
+export const ALLOWED_PATH_PREFIX = '/ai/v1/';
+
+const DEFAULT_ENVIRONMENTS: ApiEnvironment[] = [
+  { id: 'production', label: 'Production', baseUrl: 'https://api.artic.edu' },
+  { id: 'test', label: 'Test', baseUrl: 'https://api-test.artic.edu' },
+  { id: 'local', label: 'Local', baseUrl: 'http://localhost:8080' },
+];
+
+const DEFAULT_ENVIRONMENT_ID = 'test';
+
+// The built-in mock API (/api/mock) on this app's own server. Its base URL
+// assumes the default port; override it with AIC_API_URL_MOCK.
+const MOCK_ENVIRONMENT: ApiEnvironment = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  baseUrl: `http://localhost:${process.env.PORT || 3000}/api/mock`,
+};
+
+// Environment variable suffix for an environment id, e.g. "local-dev" -> "LOCAL_DEV"
+function envKey(id: string) {
+  return id.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+}
+
+function isApiEnvironment(value: unknown): value is ApiEnvironment {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const env = value as Record<string, unknown>;
+  return typeof env.id === 'string' && typeof env.label === 'string' && typeof env.baseUrl === 'string';
+}
+
+// AIC_API_ENVIRONMENTS may hold a JSON array of { id, label, baseUrl } that
+// replaces the built-in list. Individual base URLs can also be overridden with
+// AIC_API_URL_<ID>, and tokens are always taken from AIC_API_TOKEN_<ID>.
+// The mock environment is added whenever the mock API is enabled.
+function loadEnvironments(): ApiEnvironmentConfig[] {
+  let environments = DEFAULT_ENVIRONMENTS;
+
+  if (process.env.AIC_API_ENVIRONMENTS) {
+    try {
+      const parsed: unknown = JSON.parse(process.env.AIC_API_ENVIRONMENTS);
+      if (Array.isArray(parsed) && parsed.every(isApiEnvironment)) {
+        environments = parsed;
+      } else {
+        console.error('AIC_API_ENVIRONMENTS must be an array of { id, label, baseUrl }, using defaults');
+      }
+    } catch (error) {
+      console.error('Failed to parse AIC_API_ENVIRONMENTS, using defaults:', error);
+    }
+  }
+
+  if (mockApiEnabled() && !environments.some((env) => env.id === MOCK_ENVIRONMENT.id)) {
+    environments = [...environments, MOCK_ENVIRONMENT];
+  }
+
+  return environments.map((env) => ({
+    id: env.id,
+    label: env.label,
+    baseUrl: (process.env[`AIC_API_URL_${envKey(env.id)}`] || env.baseUrl).replace(/\/$/, ''),
+    token: process.env[`AIC_API_TOKEN_${envKey(env.id)}`] || undefined,
+  }));
+}
+
+function defaultEnvironmentId(environments: ApiEnvironmentConfig[]) {
+  const configured = process.env.AIC_API_DEFAULT_ENVIRONMENT || DEFAULT_ENVIRONMENT_ID;
+  return environments.some((env) => env.id === configured) ? configured : environments[0]?.id ?? '';
+}
+
+// Public view of the allowlist, safe to hand to the browser
+export function listEnvironments(): ApiEnvironmentList {
+  const environments = loadEnvironments();
+
+  return {
+    environments: environments.map(({ id, label, baseUrl }) => ({ id, label, baseUrl })),
+    defaultEnvironment: defaultEnvironmentId(environments),
+  };
+}
+
+export function getEnvironment(id?: string | null): ApiEnvironmentConfig | undefined {
+  const environments = loadEnvironments();
+  const envId = id || defaultEnvironmentId(environments);
+  return environments.find((env) => env.id === envId);
+}
+
+// Join an API path onto an environment's base URL, refusing anything that
+// would leave the environment's origin or the embeddings API namespace.
+export function resolveUpstreamUrl(env: ApiEnvironment, path: string): URL | null {
+  if (!path.startsWith(ALLOWED_PATH_PREFIX)) {
+    return null;
+  }
+
+  let base: URL;
+  let url: URL;
+  try {
+    base = new URL(env.baseUrl);
+    url = new URL(`${env.baseUrl}${path}`);
+  } catch {
+    return null;
+  }
+
+  const basePath = base.pathname.replace(/\/$/, '');
+  if (url.origin !== base.origin || !url.pathname.startsWith(`${basePath}${ALLOWED_PATH_PREFIX}`)) {
+    return null;
+  }
+
+  return url;
+}
@@ -0,0 +1,205 @@
+// Relevance evaluation of semantic search against a judgments file, shared
+// by the /evaluate page and scripts/evaluate.ts.
+
+import { searchArtworks, type EmbeddingsClientOptions } from './embeddings';
+import { mapWithConcurrency } from './concurrency';
+import { toCsv } from './download';
+
+// Judgments map each query to its relevant artwork IDs. A list marks every
+// ID with gain 1; an object gives graded gains for nDCG.
+export interface Judgment {
+  query: string;
+  relevant: Record<string, number>;
+}
+
+export interface QueryMetrics {
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+}
+
+export interface QueryEvaluation {
+  query: string;
+  retrieved: string[];
+  relevant: Record<string, number>;
+  metrics: QueryMetrics;
+  error?: string;
+}
+
+export interface EvaluationReport {
+  env: string;
+  model: string | null;
+  k: number;
+  createdAt: string;
+  summary: QueryMetrics;
+  queries: QueryEvaluation[];
+}
+
+export interface QueryDiff {
+  query: string;
+  baseline?: QueryMetrics;
+  candidate?: QueryMetrics;
+  delta?: QueryMetrics;
+}
+
+export const DEFAULT_K = 10;
+
+export function parseJudgments(json: string): Judgment[] {
+  const data: unknown = JSON.parse(json);
+  const entries = Array.isArray(data)
+    ? data
+    : (data && typeof data === 'object' && Array.isArray((data as { queries?: unknown }).queries))
+      ? (data as { queries: unknown[] }).queries
+      : null;
+
+  if (!entries) {
+    throw new Error('Judgments must be an array of { query, relevant } or { queries: [...] }');
+  }
+
+  return entries.map((entry, index) => {
+    const { query, relevant } = (entry ?? {}) as { query?: unknown; relevant?: unknown };
+    if (typeof query !== 'string' || !query.trim()) {
+      throw new Error(`Judgment ${index + 1} is missing a query`);
+    }
+
+    let gains: Record<string, number>;
+    if (Array.isArray(relevant)) {
+      gains = Object.fromEntries(relevant.map((id) => [String(id), 1]));
+    } else if (relevant && typeof relevant === 'object') {
+      gains = Object.fromEntries(Object.entries(relevant).map(([id, gain]) => [id, Number(gain) || 0]));
+    } else {
+      throw new Error(`Judgment "${query}" is missing relevant IDs`);
+    }
+
+    return { query: query.trim(), relevant: gains };
+  });
+}
+
+function dcg(gains: number[]) {
+  return gains.reduce((total, gain, index) => total + (Math.pow(2, gain) - 1) / Math.log2(index + 2), 0);
+}
+
+export function computeMetrics(retrieved: string[], relevant: Record<string, number>, k: number): QueryMetrics {
+  const topK = retrieved.slice(0, k);
+  const relevantIds = Object.keys(relevant).filter((id) => relevant[id] > 0);
+
+  const found = topK.filter((id) => relevant[id] > 0).length;
+  const firstRank = topK.findIndex((id) => relevant[id] > 0);
+
+  const ideal = Object.values(relevant).filter((gain) => gain > 0).sort((a, b) => b - a).slice(0, k);
+  const idealDcg = dcg(ideal);
+
+  return {
+    recall: relevantIds.length > 0 ? found / relevantIds.length : 0,
+    reciprocalRank: firstRank >= 0 ? 1 / (firstRank + 1) : 0,
+    ndcg: idealDcg > 0 ? dcg(topK.map((id) => relevant[id] ?? 0)) / idealDcg : 0,
+  };
+}
+
+export function averageMetrics(evaluations: QueryEvaluation[]): QueryMetrics {
+  const count = evaluations.length || 1;
+  const average = (key: keyof QueryMetrics) => (
+    evaluations.reduce((total, evaluation) => total + evaluation.metrics[key], 0) / count
+  );
+  return { recall: average('recall'), reciprocalRank: average('reciprocalRank'), ndcg: average('ndcg') };
+}
+
+// Run every judged query through semantic search and score the top k.
+// Failed queries score zero and keep their error in the report.
+export async function runEvaluation(
+  judgments: Judgment[],
+  k: number,
+  env: string,
+  options: EmbeddingsClientOptions & { concurrency?: number; onProgress?: (done: number, total: number) => void } = {}
+): Promise<EvaluationReport> {
+  let model: string | null = null;
+  let done = 0;
+
+  const queries = await mapWithConcurrency(judgments, options.concurrency ?? 4, async (judgment) => {
+    let evaluation: QueryEvaluation;
+    try {
+      const result = await searchArtworks(judgment.query, { limit: k }, { ...options, env });
+      model = model ?? result.data.model ?? null;
+      const retrieved = result.data.items.map((item) => String(item.model_id));
+      evaluation = {
+        query: judgment.query,
+        retrieved,
+        relevant: judgment.relevant,
+        metrics: computeMetrics(retrieved, judgment.relevant, k),
+      };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      evaluation = {
+        query: judgment.query,
+        retrieved: [],
+        relevant: judgment.relevant,
+        metrics: { recall: 0, reciprocalRank: 0, ndcg: 0 },
+        error: error instanceof Error ? error.message : 'Search failed',
+      };
+    }
+
+    done++;
+    options.onProgress?.(done, judgments.length);
+    return evaluation;
+  });
+
+  return {
+    env,
+    model,
+    k,
+    createdAt: new Date().toISOString(),
+    summary: averageMetrics(queries),
+    queries,
+  };
+}
+
+export function parseReport(json: string): EvaluationReport {
+  const data = JSON.parse(json);
+  if (!data || !Array.isArray(data.queries) || !data.summary || typeof data.k !== 'number') {
+    throw new Error('Not an evaluation report');
+  }
+  return data as EvaluationReport;
+}
+
+// Per-query metric changes from a baseline run to a candidate run
+export function diffReports(baseline: EvaluationReport, candidate: EvaluationReport): QueryDiff[] {
+  const queries = Array.from(new Set([
+    ...baseline.queries.map((entry) => entry.query),
+    ...candidate.queries.map((entry) => entry.query),
+  ]));
+
+  return queries.map((query) => {
+    const before = baseline.queries.find((entry) => entry.query === query)?.metrics;
+    const after = candidate.queries.find((entry) => entry.query === query)?.metrics;
+
+    return {
+      query,
+      baseline: before,
+      candidate: after,
+      delta: before && after
+        ? {
+          recall: after.recall - before.recall,
+          reciprocalRank: after.reciprocalRank - before.reciprocalRank,
+          ndcg: after.ndcg - before.ndcg,
+        }
+        : undefined,
+    };
+  });
+}
+
+export function reportToCsv(report: EvaluationReport): string {
+  return toCsv([
+    ['query', `recall@${report.k}`, 'mrr', `ndcg@${report.k}`, 'retrieved', 'error'],
+    ...report.queries.map((entry) => [
+      entry.query,
+      entry.metrics.recall.toFixed(4),
+      entry.metrics.reciprocalRank.toFixed(4),
+      entry.metrics.ndcg.toFixed(4),
+      entry.retrieved.join(' '),
+      entry.error ?? '',
+    ]),
+    ['(mean)', report.summary.recall.toFixed(4), report.summary.reciprocalRank.toFixed(4), report.summary.ndcg.toFixed(4), '', ''],
+  ]);
+}
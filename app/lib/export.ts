@@ -0,0 +1,168 @@
+// Export of a result set as CSV, JSON or a IIIF Presentation 3 manifest,
+// together with the query that produced it.
+
+import type { EmbeddingsQuery, EmbeddingsResult, SearchResults } from './embeddings';
+import { formatAnalogy } from './analogy';
+import { toCsv } from './download';
+
+export type ExportFormat = 'csv' | 'json' | 'iiif';
+
+export interface ExportMetadata {
+  query: EmbeddingsQuery | null;
+  env: string;
+  // Upstream API URL(s) the results came from
+  apiUrl: string;
+  shareUrl: string;
+  // Set when the export holds only the results matching client-side filters
+  filtered?: boolean;
+}
+
+const IIIF_CONTEXT = 'http://iiif.io/api/presentation/3/context.json';
+
+// Canvas size for images whose dimensions aren't in the results; viewers
+// re-scale to the image once it loads
+const DEFAULT_CANVAS_SIZE = 1000;
+
+// The query as plain JSON: uploaded images are described rather than included
+function serializeQuery(query: EmbeddingsQuery | null) {
+  if (!query) {
+    return null;
+  }
+  if (query.type === 'image') {
+    const { image, ...rest } = query;
+    return { ...rest, image: image ? { type: image.type, size: image.size } : null };
+  }
+  return query;
+}
+
+export function describeQuery(query: EmbeddingsQuery | null): string {
+  switch (query?.type) {
+    case 'semantic':
+      return `Semantic search: ${query.query}`;
+    case 'nearest_neighbor':
+      return `Nearest neighbors of artwork ${query.id}`;
+    case 'compare':
+      return `Compare ${query.id} (${query.firstType}) with ${query.compareId} (${query.secondType})`;
+    case 'between':
+      return `Between ${query.id} and ${query.compareId} (${query.comparisonType})`;
+    case 'image':
+      return `Image search: ${query.image ? 'uploaded image' : query.imageUrl}`;
+    case 'analogy':
+      return `Analogy: ${formatAnalogy(query.terms)}`;
+    default:
+      return 'Search results';
+  }
+}
+
+function metadataEntries(metadata: ExportMetadata): Array<[string, string]> {
+  return [
+    ['query', describeQuery(metadata.query)],
+    ['environment', metadata.env || 'default'],
+    ['api_url', metadata.apiUrl],
+    ['share_url', metadata.shareUrl],
+    ['exported_at', new Date().toISOString()],
+    ...(metadata.filtered ? [['filtered', 'true'] as [string, string]] : []),
+  ];
+}
+
+// Metadata goes in leading "# key: value" comment lines, which most CSV
+// readers can skip (e.g. pandas' comment="#")
+export function resultsToCsv(result: EmbeddingsResult, metadata: ExportMetadata): string {
+  const header = metadataEntries(metadata).map(([key, value]) => `# ${key}: ${value.replace(/\s+/g, ' ')}`).join('\n');
+
+  const rows = result.kind === 'search'
+    ? [
+      ['id', 'model_id', 'distance', 'embedding_type', 'description', 'image_url'],
+      ...result.data.items.map((item) => [
+        item.id,
+        item.model_id,
+        item.distance,
+        item.embedding_type,
+        item.data?.description,
+        item.data?.image_url,
+      ]),
+    ]
+    : [
+      ['id1', 'id2', 'embedding_type', 'similarity_score'],
+      ...result.data.similarity_scores.map((score) => [
+        score.items.id1,
+        score.items.id2,
+        score.embedding_type,
+        score.similarity_score,
+      ]),
+    ];
+
+  return `${header}\n${toCsv(rows)}`;
+}
+
+// The full API response, including image_embedding_data
+export function resultsToJson(result: EmbeddingsResult, metadata: ExportMetadata): string {
+  return JSON.stringify({
+    metadata: {
+      ...Object.fromEntries(metadataEntries(metadata)),
+      query: serializeQuery(metadata.query),
+    },
+    kind: result.kind,
+    ...(result.kind === 'search' && result.matches ? { matches: result.matches } : {}),
+    results: result.data,
+  }, null, 2);
+}
+
+// One canvas per result image, identified by the app's artwork detail page
+export function resultsToIiifManifest(results: SearchResults, metadata: ExportMetadata, origin: string): string {
+  const label = describeQuery(metadata.query);
+  const items = results.items
+    .filter((item) => item.data?.image_url)
+    .map((item) => {
+      const canvasId = `${origin}/artworks/${item.model_id}`;
+      const iiifImage = item.data.image_url.match(/^(.*\/iiif\/2\/[^/]+)\//);
+
+      return {
+        id: canvasId,
+        type: 'Canvas',
+        label: { none: [`Artwork ${item.model_id}`] },
+        height: DEFAULT_CANVAS_SIZE,
+        width: DEFAULT_CANVAS_SIZE,
+        ...(item.data.description ? { summary: { en: [item.data.description] } } : {}),
+        metadata: [
+          { label: { en: ['Distance'] }, value: { none: [String(item.distance)] } },
+          { label: { en: ['Embedding type'] }, value: { none: [item.embedding_type] } },
+        ],
+        homepage: [{
+          id: `https://www.artic.edu/artworks/${item.model_id}`,
+          type: 'Text',
+          label: { en: [`Artwork ${item.model_id} at the Art Institute of Chicago`] },
+          format: 'text/html',
+        }],
+        items: [{
+          id: `${canvasId}/page`,
+          type: 'AnnotationPage',
+          items: [{
+            id: `${canvasId}/page/image`,
+            type: 'Annotation',
+            motivation: 'painting',
+            body: {
+              id: item.data.image_url,
+              type: 'Image',
+              format: 'image/jpeg',
+              ...(iiifImage ? { service: [{ id: iiifImage[1], type: 'ImageService2', profile: 'level2' }] } : {}),
+            },
+            target: canvasId,
+          }],
+        }],
+      };
+    });
+
+  return JSON.stringify({
+    '@context': IIIF_CONTEXT,
+    id: metadata.shareUrl,
+    type: 'Manifest',
+    label: { en: [label] },
+    summary: { en: [`${items.length} results from the ${metadata.env || 'default'} environment`] },
+    metadata: metadataEntries(metadata).map(([key, value]) => ({
+      label: { en: [key] },
+      value: { none: [value] },
+    })),
+    items,
+  }, null, 2);
+}
@@ -0,0 +1,158 @@
+import type { ArtworkItem } from './embeddings';
+import { analysisData } from './vision';
+
+// Client-side filters over a page of search results. Values within a facet
+// are OR-ed together, except tags, which must all be present; facets are
+// AND-ed with each other and with the distance threshold.
+export interface ResultFilters {
+  embeddingTypes: string[];
+  models: string[];
+  versions: string[];
+  tags: string[];
+  maxDistance: number | null;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface ResultFacets {
+  embeddingTypes: FacetValue[];
+  models: FacetValue[];
+  versions: FacetValue[];
+  tags: FacetValue[];
+  distanceRange: { min: number; max: number } | null;
+}
+
+export type FacetKey = 'embeddingTypes' | 'models' | 'versions' | 'tags';
+
+export const EMPTY_FILTERS: ResultFilters = {
+  embeddingTypes: [],
+  models: [],
+  versions: [],
+  tags: [],
+  maxDistance: null,
+};
+
+// URL query parameter used for each facet; repeated once per selected value
+const FILTER_PARAMS: Record<FacetKey, string> = {
+  embeddingTypes: 'embeddingType',
+  models: 'model',
+  versions: 'version',
+  tags: 'tag',
+};
+
+const MAX_DISTANCE_PARAM = 'maxDistance';
+
+export function itemTags(item: ArtworkItem): string[] {
+  const tags = analysisData(item)?.tags ?? [];
+  return tags.map((tag) => tag.name);
+}
+
+export function itemDistance(item: ArtworkItem): number | null {
+  const distance = parseFloat(item.distance);
+  return Number.isFinite(distance) ? distance : null;
+}
+
+function facetValues(item: ArtworkItem, key: FacetKey): string[] {
+  switch (key) {
+    case 'embeddingTypes':
+      return item.embedding_type ? [item.embedding_type] : [];
+    case 'models':
+      return item.model_name ? [item.model_name] : [];
+    case 'versions':
+      return item.version ? [item.version] : [];
+    case 'tags':
+      return itemTags(item);
+  }
+}
+
+function countValues(items: ArtworkItem[], key: FacetKey): FacetValue[] {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    new Set(facetValues(item, key)).forEach((value) => {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    });
+  });
+
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+export function computeFacets(items: ArtworkItem[]): ResultFacets {
+  const distances = items.map(itemDistance).filter((distance): distance is number => distance !== null);
+
+  return {
+    embeddingTypes: countValues(items, 'embeddingTypes'),
+    models: countValues(items, 'models'),
+    versions: countValues(items, 'versions'),
+    tags: countValues(items, 'tags'),
+    distanceRange: distances.length > 0
+      ? { min: Math.min(...distances), max: Math.max(...distances) }
+      : null,
+  };
+}
+
+export function applyFilters(items: ArtworkItem[], filters: ResultFilters): ArtworkItem[] {
+  return items.filter((item) => {
+    for (const key of ['embeddingTypes', 'models', 'versions'] as const) {
+      if (filters[key].length > 0 && !facetValues(item, key).some((value) => filters[key].includes(value))) {
+        return false;
+      }
+    }
+
+    if (filters.tags.length > 0) {
+      const tags = itemTags(item);
+      if (!filters.tags.every((tag) => tags.includes(tag))) {
+        return false;
+      }
+    }
+
+    if (filters.maxDistance !== null) {
+      const distance = itemDistance(item);
+      if (distance !== null && distance > filters.maxDistance) {
+        return false;
+      }
+    }
+
+    return true;
+  });
+}
+
+export function hasActiveFilters(filters: ResultFilters) {
+  return filters.maxDistance !== null
+    || (Object.keys(FILTER_PARAMS) as FacetKey[]).some((key) => filters[key].length > 0);
+}
+
+export function toggleFilterValue(filters: ResultFilters, key: FacetKey, value: string): ResultFilters {
+  const values = filters[key].includes(value)
+    ? filters[key].filter((existing) => existing !== value)
+    : [...filters[key], value];
+  return { ...filters, [key]: values };
+}
+
+export function readFilterParams(params: URLSearchParams): ResultFilters {
+  const maxDistance = parseFloat(params.get(MAX_DISTANCE_PARAM) ?? '');
+
+  return {
+    embeddingTypes: params.getAll(FILTER_PARAMS.embeddingTypes),
+    models: params.getAll(FILTER_PARAMS.models),
+    versions: params.getAll(FILTER_PARAMS.versions),
+    tags: params.getAll(FILTER_PARAMS.tags),
+    maxDistance: Number.isFinite(maxDistance) ? maxDistance : null,
+  };
+}
+
+// Replace any filter parameters in params with the given filters
+export function writeFilterParams(params: URLSearchParams, filters: ResultFilters) {
+  (Object.keys(FILTER_PARAMS) as FacetKey[]).forEach((key) => {
+    params.delete(FILTER_PARAMS[key]);
+    filters[key].forEach((value) => params.append(FILTER_PARAMS[key], value));
+  });
+
+  params.delete(MAX_DISTANCE_PARAM);
+  if (filters.maxDistance !== null) {
+    params.set(MAX_DISTANCE_PARAM, String(filters.maxDistance));
+  }
+}
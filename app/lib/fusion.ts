@@ -0,0 +1,56 @@
+// Merging of ranked result lists from the text- and image-vector indexes
+// for hybrid search.
+
+import type { ArtworkItem, ComparisonType } from './embeddings';
+
+export interface RankedList {
+  modality: ComparisonType;
+  items: ArtworkItem[];
+  weight: number;
+}
+
+export interface FusedItem {
+  item: ArtworkItem;
+  score: number;
+  modalities: ComparisonType[];
+}
+
+// Rank offset from the original RRF paper; larger values flatten the
+// difference between top and lower ranks
+export const RRF_K = 60;
+
+// Weighted reciprocal rank fusion: each list adds weight / (k + rank) for
+// every artwork it contains. Ranks are used rather than distances because
+// the two indexes don't share a distance scale. Artworks are matched by
+// model_id, and keep the record from the list that contributed most.
+export function fuseRankings(lists: RankedList[], k = RRF_K): FusedItem[] {
+  const fused = new Map<number, FusedItem & { best: number }>();
+
+  lists.forEach(({ modality, items, weight }) => {
+    if (weight <= 0) {
+      return;
+    }
+    items.forEach((item, index) => {
+      const contribution = weight / (k + index + 1);
+      const entry = fused.get(item.model_id);
+
+      if (!entry) {
+        fused.set(item.model_id, { item, score: contribution, modalities: [modality], best: contribution });
+        return;
+      }
+
+      entry.score += contribution;
+      if (!entry.modalities.includes(modality)) {
+        entry.modalities.push(modality);
+      }
+      if (contribution > entry.best) {
+        entry.item = item;
+        entry.best = contribution;
+      }
+    });
+  });
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .map(({ item, score, modalities }) => ({ item, score, modalities }));
+}
@@ -0,0 +1,204 @@
+import { MAX_PAGE_SIZE, type ArtworkItem } from './embeddings';
+import { itemDistance } from './filters';
+
+// Graph explored by repeatedly expanding nearest neighbors. Nodes are keyed
+// by artwork (model) ID; edges point from the expanded node to a neighbor.
+export interface GraphNode {
+  id: string;
+  imageUrl?: string;
+  description?: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  distance: number;
+}
+
+export interface ExplorationGraph {
+  start: string;
+  nodes: Record<string, GraphNode>;
+  edges: GraphEdge[];
+  // Expanded node IDs in the order they were expanded, for replaying
+  expanded: string[];
+}
+
+export const DEFAULT_NEIGHBOR_COUNT = 8;
+
+// Spring rest length for an edge, so closer neighbors sit closer together
+const BASE_LENGTH = 60;
+const DISTANCE_LENGTH = 240;
+const REPULSION = 2500;
+const SPRING = 0.05;
+const CENTERING = 0.01;
+const DAMPING = 0.85;
+
+function newNode(id: string, near?: GraphNode): GraphNode {
+  // Place new nodes around their parent with a little jitter so they separate
+  const angle = Math.random() * 2 * Math.PI;
+  return {
+    id,
+    x: (near?.x ?? 0) + Math.cos(angle) * 30,
+    y: (near?.y ?? 0) + Math.sin(angle) * 30,
+    vx: 0,
+    vy: 0,
+  };
+}
+
+export function createGraph(start: string): ExplorationGraph {
+  return {
+    start,
+    nodes: { [start]: newNode(start) },
+    edges: [],
+    expanded: [],
+  };
+}
+
+function withArtworkData(node: GraphNode, item: ArtworkItem): GraphNode {
+  return {
+    ...node,
+    imageUrl: node.imageUrl || item.data?.image_url,
+    description: node.description || item.data?.description,
+  };
+}
+
+export function setNodeArtwork(graph: ExplorationGraph, item: ArtworkItem): ExplorationGraph {
+  const id = String(item.model_id);
+  if (!graph.nodes[id]) {
+    return graph;
+  }
+  return { ...graph, nodes: { ...graph.nodes, [id]: withArtworkData(graph.nodes[id], item) } };
+}
+
+// Add a node's nearest neighbors to the graph, skipping the node itself
+// and edges that already exist in either direction.
+export function addNeighbors(graph: ExplorationGraph, sourceId: string, neighbors: ArtworkItem[]): ExplorationGraph {
+  const nodes = { ...graph.nodes };
+  const edges = [...graph.edges];
+  const source = nodes[sourceId] ?? newNode(sourceId);
+  nodes[sourceId] = source;
+
+  neighbors.forEach((item) => {
+    const id = String(item.model_id);
+    if (id === sourceId) {
+      return;
+    }
+
+    nodes[id] = withArtworkData(nodes[id] ?? newNode(id, source), item);
+
+    const exists = edges.some((edge) =>
+      (edge.source === sourceId && edge.target === id) || (edge.source === id && edge.target === sourceId)
+    );
+    if (!exists) {
+      edges.push({ source: sourceId, target: id, distance: itemDistance(item) ?? 1 });
+    }
+  });
+
+  return {
+    ...graph,
+    nodes,
+    edges,
+    expanded: graph.expanded.includes(sourceId) ? graph.expanded : [...graph.expanded, sourceId],
+  };
+}
+
+// One step of a simple force simulation: pairwise repulsion, springs along
+// edges and a weak pull to the origin. Returns the total movement so callers
+// can stop once the layout settles.
+export function layoutStep(graph: ExplorationGraph): number {
+  const nodes = Object.values(graph.nodes);
+
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = nodes[i];
+      const b = nodes[j];
+      const dx = a.x - b.x || 0.01;
+      const dy = a.y - b.y || 0.01;
+      const distanceSq = Math.max(dx * dx + dy * dy, 1);
+      const force = REPULSION / distanceSq;
+      const distance = Math.sqrt(distanceSq);
+      a.vx += (dx / distance) * force;
+      a.vy += (dy / distance) * force;
+      b.vx -= (dx / distance) * force;
+      b.vy -= (dy / distance) * force;
+    }
+  }
+
+  graph.edges.forEach((edge) => {
+    const a = graph.nodes[edge.source];
+    const b = graph.nodes[edge.target];
+    if (!a || !b) {
+      return;
+    }
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+    const rest = BASE_LENGTH + edge.distance * DISTANCE_LENGTH;
+    const force = (distance - rest) * SPRING;
+    a.vx += (dx / distance) * force;
+    a.vy += (dy / distance) * force;
+    b.vx -= (dx / distance) * force;
+    b.vy -= (dy / distance) * force;
+  });
+
+  let movement = 0;
+  nodes.forEach((node) => {
+    node.vx = (node.vx - node.x * CENTERING) * DAMPING;
+    node.vy = (node.vy - node.y * CENTERING) * DAMPING;
+    node.x += node.vx;
+    node.y += node.vy;
+    movement += Math.abs(node.vx) + Math.abs(node.vy);
+  });
+
+  return movement;
+}
+
+export function graphToJson(graph: ExplorationGraph, env: string, neighborCount: number): string {
+  return JSON.stringify({
+    env,
+    neighborCount,
+    start: graph.start,
+    expanded: graph.expanded,
+    nodes: Object.values(graph.nodes).map(({ id, imageUrl, description, x, y }) => ({ id, imageUrl, description, x, y })),
+    edges: graph.edges,
+  }, null, 2);
+}
+
+export function graphFromJson(json: string): { graph: ExplorationGraph; env?: string; neighborCount?: number } {
+  const data = JSON.parse(json);
+  if (!data || typeof data.start !== 'string' || !Array.isArray(data.nodes) || !Array.isArray(data.edges)) {
+    throw new Error('Not an exploration graph export');
+  }
+
+  const nodes: Record<string, GraphNode> = {};
+  data.nodes.forEach((node: Partial<GraphNode>) => {
+    if (typeof node.id === 'string') {
+      nodes[node.id] = {
+        id: node.id,
+        imageUrl: node.imageUrl,
+        description: node.description,
+        x: Number(node.x) || 0,
+        y: Number(node.y) || 0,
+        vx: 0,
+        vy: 0,
+      };
+    }
+  });
+
+  return {
+    graph: {
+      start: data.start,
+      nodes,
+      edges: data.edges.filter((edge: GraphEdge) => nodes[edge.source] && nodes[edge.target]),
+      expanded: Array.isArray(data.expanded) ? data.expanded : [],
+    },
+    env: typeof data.env === 'string' ? data.env : undefined,
+    neighborCount: typeof data.neighborCount === 'number' && data.neighborCount > 0
+      ? Math.min(data.neighborCount, MAX_PAGE_SIZE)
+      : undefined,
+  };
+}
@@ -0,0 +1,210 @@
+// Search history, saved searches and artwork collections, kept in the
+// browser's localStorage. Searches are stored as the page's query string,
+// the same form as a share link.
+
+import type { ArtworkItem } from './embeddings';
+
+export interface SearchEntry {
+  id: string;
+  search: string;
+  label: string;
+  createdAt: string;
+}
+
+export interface SavedSearch extends SearchEntry {
+  name: string;
+}
+
+export interface CollectionArtwork {
+  id: number;
+  imageUrl?: string;
+  description?: string;
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  artworks: CollectionArtwork[];
+  createdAt: string;
+}
+
+export interface Library {
+  history: SearchEntry[];
+  saved: SavedSearch[];
+  collections: Collection[];
+}
+
+export const EMPTY_LIBRARY: Library = { history: [], saved: [], collections: [] };
+export const MAX_HISTORY = 50;
+
+const STORAGE_KEY = 'aic-embeddings-library';
+const EXPORT_VERSION = 1;
+
+function newId() {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+// A short human-readable label for a search query string
+export function describeSearch(search: string): string {
+  const params = new URLSearchParams(search);
+  const type = params.get('type') || 'semantic';
+  const subject = params.get('q')
+    ?? params.get('expr')
+    ?? params.get('imageUrl')
+    ?? [params.get('id'), params.get('compareId')].filter(Boolean).join(' ↔ ');
+  const env = params.get('env');
+  return `${type.replace('_', ' ')}: ${subject || '—'}${env ? ` (${env})` : ''}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isSearchEntry(value: unknown): value is SearchEntry {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.search === 'string'
+    && typeof value.label === 'string'
+    && typeof value.createdAt === 'string';
+}
+
+function isCollection(value: unknown): value is Collection {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && Array.isArray(value.artworks)
+    && value.artworks.every((artwork) => isRecord(artwork) && typeof artwork.id === 'number');
+}
+
+// Validate stored or imported data, dropping entries that don't parse
+export function parseLibrary(json: string): Library {
+  const data: unknown = JSON.parse(json);
+  if (!isRecord(data)) {
+    throw new Error('Not a saved searches export');
+  }
+
+  return {
+    history: Array.isArray(data.history) ? data.history.filter(isSearchEntry) : [],
+    saved: Array.isArray(data.saved)
+      ? data.saved.filter((entry): entry is SavedSearch => isSearchEntry(entry) && typeof (entry as SavedSearch).name === 'string')
+      : [],
+    collections: Array.isArray(data.collections) ? data.collections.filter(isCollection) : [],
+  };
+}
+
+export function loadLibrary(): Library {
+  try {
+    const json = window.localStorage.getItem(STORAGE_KEY);
+    return json ? parseLibrary(json) : EMPTY_LIBRARY;
+  } catch (err) {
+    console.error('Failed to load saved searches:', err);
+    return EMPTY_LIBRARY;
+  }
+}
+
+export function storeLibrary(library: Library) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+  } catch (err) {
+    console.error('Failed to save searches:', err);
+  }
+}
+
+export function isLibraryStorageKey(key: string | null) {
+  return key === STORAGE_KEY;
+}
+
+export function exportLibrary(library: Library): string {
+  return JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), ...library }, null, 2);
+}
+
+// Merge imported data into the library; entries with an existing id are kept
+// as they are
+export function mergeLibrary(library: Library, imported: Library): Library {
+  const merge = <T extends { id: string }>(current: T[], incoming: T[]) => [
+    ...current,
+    ...incoming.filter((entry) => !current.some((existing) => existing.id === entry.id)),
+  ];
+
+  return {
+    history: merge(library.history, imported.history)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, MAX_HISTORY),
+    saved: merge(library.saved, imported.saved),
+    collections: merge(library.collections, imported.collections),
+  };
+}
+
+// Most recent first; running the same search again moves it to the top
+export function addHistory(library: Library, search: string): Library {
+  const entry: SearchEntry = { id: newId(), search, label: describeSearch(search), createdAt: new Date().toISOString() };
+  return {
+    ...library,
+    history: [entry, ...library.history.filter((existing) => existing.search !== search)].slice(0, MAX_HISTORY),
+  };
+}
+
+export function clearHistory(library: Library): Library {
+  return { ...library, history: [] };
+}
+
+export function saveSearch(library: Library, search: string, name: string): Library {
+  const entry: SavedSearch = {
+    id: newId(),
+    search,
+    name: name.trim() || describeSearch(search),
+    label: describeSearch(search),
+    createdAt: new Date().toISOString(),
+  };
+  return { ...library, saved: [entry, ...library.saved] };
+}
+
+export function removeSavedSearch(library: Library, id: string): Library {
+  return { ...library, saved: library.saved.filter((entry) => entry.id !== id) };
+}
+
+export function newCollection(name: string, fallbackName = 'Collection'): Collection {
+  return {
+    id: newId(),
+    name: name.trim() || fallbackName,
+    artworks: [],
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function addCollection(library: Library, collection: Collection): Library {
+  return { ...library, collections: [...library.collections, collection] };
+}
+
+export function removeCollection(library: Library, id: string): Library {
+  return { ...library, collections: library.collections.filter((collection) => collection.id !== id) };
+}
+
+export function collectionHas(collection: Collection | undefined, artworkId: number) {
+  return !!collection?.artworks.some((artwork) => artwork.id === artworkId);
+}
+
+// Add the artwork to the collection, or remove it if it's already there
+export function toggleCollectionItem(library: Library, collectionId: string, item: ArtworkItem): Library {
+  return {
+    ...library,
+    collections: library.collections.map((collection) => {
+      if (collection.id !== collectionId) {
+        return collection;
+      }
+      if (collectionHas(collection, item.model_id)) {
+        return { ...collection, artworks: collection.artworks.filter((artwork) => artwork.id !== item.model_id) };
+      }
+      return {
+        ...collection,
+        artworks: [...collection.artworks, {
+          id: item.model_id,
+          imageUrl: item.data?.image_url,
+          description: item.data?.description?.slice(0, 200),
+        }],
+      };
+    }),
+  };
+}
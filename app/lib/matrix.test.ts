@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { computeMatrices, countPairTasks, type PairTask } from './matrix';
+
+function score(value: number) {
+  return Response.json({ similarity_scores: [{ embedding_type: 'text', similarity_score: value, items: { id1: 1, id2: 2 } }] });
+}
+
+describe('computeMatrices', () => {
+  it('fills both halves of symmetric matrices and the whole cross matrix', async () => {
+    const transport = vi.fn(async () => score(0.5));
+
+    const { matrices, failed } = await computeMatrices(['1', '2', '3'], 2, { transport });
+
+    expect(transport).toHaveBeenCalledTimes(countPairTasks(3));
+    expect(countPairTasks(3)).toBe(3 + 3 + 9);
+    expect(matrices.text).toEqual([[1, 0.5, 0.5], [0.5, 1, 0.5], [0.5, 0.5, 1]]);
+    expect(matrices.cross.flat().every((value) => value === 0.5)).toBe(true);
+    expect(failed).toEqual([]);
+  });
+
+  it('lists the pairs that failed and retries only those', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = '/ai/v1/image/artworks/1/compare/image/artworks/2';
+    const transport = vi.fn(async (path: string) => (path === failing
+      ? Response.json({ code: 'UPSTREAM_UNAVAILABLE', message: 'Service Unavailable' }, { status: 502 })
+      : score(0.5)));
+
+    const first = await computeMatrices(['1', '2'], 1, { transport });
+    expect(first.failed).toEqual<PairTask[]>([{ kind: 'image', i: 0, j: 1 }]);
+    expect(first.matrices.image[0][1]).toBeNull();
+
+    transport.mockClear();
+    transport.mockImplementation(async () => score(0.7));
+    const retried = await computeMatrices(['1', '2'], 1, { transport }, undefined, first);
+
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(retried.failed).toEqual([]);
+    expect(retried.matrices.image).toEqual([[1, 0.7], [0.7, 1]]);
+    expect(retried.matrices.text).toEqual(first.matrices.text);
+    expect(first.matrices.image[0][1]).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+import { compareArtworks, type ComparisonType, type EmbeddingsClientOptions } from './embeddings';
+import { mapWithConcurrency } from './concurrency';
+import { toCsv } from './download';
+
+export type MatrixKind = 'text' | 'image' | 'cross';
+
+// Cell [i][j] holds the similarity of artwork i's firstType vector to
+// artwork j's secondType vector. Same-modality matrices are symmetric, so
+// only their upper triangle is fetched.
+export const MATRIX_KINDS: Array<{
+  kind: MatrixKind;
+  label: string;
+  firstType: ComparisonType;
+  secondType: ComparisonType;
+  symmetric: boolean;
+}> = [
+  { kind: 'text', label: 'Text / Text', firstType: 'text', secondType: 'text', symmetric: true },
+  { kind: 'image', label: 'Image / Image', firstType: 'image', secondType: 'image', symmetric: true },
+  { kind: 'cross', label: 'Text / Image', firstType: 'text', secondType: 'image', symmetric: false },
+];
+
+export type SimilarityMatrix = Array<Array<number | null>>;
+export type SimilarityMatrices = Record<MatrixKind, SimilarityMatrix>;
+
+// 8 artworks take 120 compare calls, about a minute under the proxy's
+// default rate limit; each artwork more adds roughly 4n calls
+export const MAX_MATRIX_IDS = 8;
+
+export interface PairTask {
+  kind: MatrixKind;
+  i: number;
+  j: number;
+}
+
+export interface MatrixResult {
+  matrices: SimilarityMatrices;
+  // Pairs whose compare call failed; their cells are null
+  failed: PairTask[];
+}
+
+export function parseIdList(value: string): string[] {
+  const ids = value.split(/[\s,]+/).map((id) => id.trim()).filter(Boolean);
+  return Array.from(new Set(ids));
+}
+
+function emptyMatrix(size: number, diagonal: number | null): SimilarityMatrix {
+  return Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => (i === j ? diagonal : null))
+  );
+}
+
+function pairTasks(size: number): PairTask[] {
+  const tasks: PairTask[] = [];
+  MATRIX_KINDS.forEach(({ kind, symmetric }) => {
+    for (let i = 0; i < size; i++) {
+      for (let j = symmetric ? i + 1 : 0; j < size; j++) {
+        tasks.push({ kind, i, j });
+      }
+    }
+  });
+  return tasks;
+}
+
+export function countPairTasks(size: number) {
+  return pairTasks(size).length;
+}
+
+// Fetch every pairwise score through the compare endpoint, or only the
+// pairs that failed in `retry`. Pairs that fail are left as null and listed
+// in the result rather than failing the whole matrix.
+export async function computeMatrices(
+  ids: string[],
+  concurrency: number,
+  options: EmbeddingsClientOptions,
+  onProgress?: (done: number, total: number) => void,
+  retry?: MatrixResult
+): Promise<MatrixResult> {
+  const matrices: SimilarityMatrices = retry
+    ? {
+      text: retry.matrices.text.map((row) => [...row]),
+      image: retry.matrices.image.map((row) => [...row]),
+      cross: retry.matrices.cross.map((row) => [...row]),
+    }
+    : {
+      text: emptyMatrix(ids.length, 1),
+      image: emptyMatrix(ids.length, 1),
+      cross: emptyMatrix(ids.length, null),
+    };
+
+  const tasks = retry?.failed ?? pairTasks(ids.length);
+  const failed: PairTask[] = [];
+  let done = 0;
+
+  await mapWithConcurrency(tasks, concurrency, async (task) => {
+    const { kind, i, j } = task;
+    const { firstType, secondType, symmetric } = MATRIX_KINDS.find((entry) => entry.kind === kind)!;
+
+    try {
+      const result = await compareArtworks(ids[i], ids[j], firstType, secondType, options);
+      const score = result.data.similarity_scores[0]?.similarity_score ?? null;
+      matrices[kind][i][j] = score;
+      if (symmetric) {
+        matrices[kind][j][i] = score;
+      }
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      console.error(`Compare ${ids[i]} / ${ids[j]} (${kind}) failed:`, error);
+      failed.push(task);
+    }
+
+    done++;
+    onProgress?.(done, tasks.length);
+  });
+
+  return { matrices, failed };
+}
+
+// Average-linkage agglomerative clustering on 1 - similarity; returns the
+// leaf order so that similar artworks end up next to each other.
+export function clusterOrder(matrix: SimilarityMatrix): number[] {
+  const size = matrix.length;
+  const distance = (a: number, b: number) => {
+    const values = [matrix[a][b], matrix[b][a]].filter((value): value is number => value !== null);
+    return values.length > 0 ? 1 - values.reduce((sum, value) => sum + value, 0) / values.length : 2;
+  };
+
+  let clusters = Array.from({ length: size }, (_, i) => [i]);
+
+  while (clusters.length > 1) {
+    let best = { a: 0, b: 1, distance: Infinity };
+
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        let total = 0;
+        clusters[a].forEach((i) => clusters[b].forEach((j) => { total += distance(i, j); }));
+        const average = total / (clusters[a].length * clusters[b].length);
+        if (average < best.distance) {
+          best = { a, b, distance: average };
+        }
+      }
+    }
+
+    const merged = [...clusters[best.a], ...clusters[best.b]];
+    clusters = clusters.filter((_, index) => index !== best.a && index !== best.b);
+    clusters.push(merged);
+  }
+
+  return clusters[0] ?? [];
+}
+
+export function matricesToCsv(ids: string[], matrices: SimilarityMatrices): string {
+  const rows: unknown[][] = [['id1', 'id2', ...MATRIX_KINDS.map(({ kind }) => kind)]];
+
+  ids.forEach((id1, i) => {
+    ids.forEach((id2, j) => {
+      rows.push([id1, id2, ...MATRIX_KINDS.map(({ kind }) => matrices[kind][i][j])]);
+    });
+  });
+
+  return toCsv(rows);
+}
+
+export function matricesToJson(ids: string[], matrices: SimilarityMatrices, env: string): string {
+  return JSON.stringify({
+    env,
+    ids,
+    kinds: MATRIX_KINDS.map(({ kind, firstType, secondType }) => ({ kind, firstType, secondType })),
+    matrices,
+  }, null, 2);
+}
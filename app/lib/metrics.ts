@@ -0,0 +1,95 @@
+// Request counters and latency histograms for the proxy routes, rendered in
+// the Prometheus text exposition format by /api/metrics.
+
+type Labels = Record<string, string>;
+
+// Latency buckets in seconds
+const DURATION_BUCKETS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function labelKey(labels: Labels) {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels) {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const escaped = entries.map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return `{${escaped.join(',')}}`;
+}
+
+export class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    this.values.forEach(({ labels, value }) => {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    });
+    return lines.join('\n');
+  }
+}
+
+export class Histogram {
+  private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private buckets = DURATION_BUCKETS) {}
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.counts[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.values.forEach(({ labels, counts, sum, count }) => {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    });
+    return lines.join('\n');
+  }
+}
+
+// Shared across requests for the lifetime of the server process
+export const proxyRequests = new Counter(
+  'aic_proxy_requests_total',
+  'Proxy requests by endpoint type, response status and cache result.'
+);
+
+export const proxyDuration = new Histogram(
+  'aic_proxy_request_duration_seconds',
+  'Time to answer a proxy request, in seconds.'
+);
+
+export const upstreamDuration = new Histogram(
+  'aic_proxy_upstream_duration_seconds',
+  'Time spent waiting for the embeddings API, in seconds.'
+);
+
+const METRICS = [proxyRequests, proxyDuration, upstreamDuration];
+
+export function renderMetrics(): string {
+  return `${METRICS.map((metric) => metric.render()).join('\n\n')}\n`;
+}
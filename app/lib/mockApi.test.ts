@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { ArtworkItem } from './embeddings';
+import { itemTags } from './filters';
+import { handleMockRequest } from './mockApi';
+import { compareTags, overlayBoxes } from './vision';
+
+const ORIGIN = 'http://localhost:3000/api/mock';
+
+function artwork(id: number) {
+  return handleMockRequest('GET', `/ai/v1/artworks/${id}`, new URLSearchParams(), ORIGIN).body as ArtworkItem;
+}
+
+describe('mock API vision analysis', () => {
+  it('tags artworks with their visual concepts and detected objects', () => {
+    expect(itemTags(artwork(1011))).toEqual(['animal', 'landscape', 'summer', 'horse']);
+  });
+
+  it('locates captions, objects and people in the placeholder image', () => {
+    const boxes = overlayBoxes(artwork(1007));
+
+    expect(boxes.map((box) => `${box.layer}:${box.label}`)).toEqual([
+      'denseCaption:people with umbrellas on a street',
+      'denseCaption:an umbrella',
+      'denseCaption:an umbrella',
+      'objects:umbrella',
+      'objects:umbrella',
+      'peopleLocation:person',
+      'peopleLocation:person',
+    ]);
+    boxes.forEach(({ boundingBox: { x, y, w, h } }) => {
+      expect(x + w).toBeLessThanOrEqual(400);
+      expect(y + h).toBeLessThanOrEqual(300);
+    });
+  });
+
+  it('gives comparisons tags to share', () => {
+    expect(compareTags(artwork(1002), artwork(1016), 0.5).shared).toEqual(['winter', 'landscape']);
+  });
+});
@@ -0,0 +1,335 @@
+// A stand-in for the embeddings API over the fixture artworks in
+// mockFixtures.ts, served by /api/mock so the app runs without network
+// access. Vectors are computed locally: an artwork's text vector from the
+// concept keywords in its description, its image vector from its visual
+// concepts, and a text query's vector like a description's.
+
+import { DEFAULT_PAGE_SIZE, type ArtworkItem, type ComparisonType, type SearchResults, type SimilarityResults } from './embeddings';
+import { MOCK_ARTWORKS, MOCK_CONCEPTS, type MockArtwork, type MockBox } from './mockFixtures';
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+  // Content type for non-JSON bodies (placeholder images)
+  contentType?: string;
+}
+
+// The mock is always available in development; in production it has to be
+// switched on with AIC_MOCK_API=1
+export function mockApiEnabled() {
+  if (process.env.AIC_MOCK_API) {
+    return process.env.AIC_MOCK_API === '1';
+  }
+  return process.env.NODE_ENV !== 'production';
+}
+
+type Vector = number[];
+
+function normalize(vector: Vector): Vector {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+// Concept counts for the words in a text; words outside every concept's
+// keywords don't count
+export function embedText(text: string): Vector {
+  const vector = MOCK_CONCEPTS.map(() => 0);
+  text.toLowerCase().split(/[^a-z]+/).forEach((word) => {
+    MOCK_CONCEPTS.forEach((concept, index) => {
+      if (concept.keywords.includes(word)) {
+        vector[index]++;
+      }
+    });
+  });
+  return normalize(vector);
+}
+
+function imageVector(artwork: MockArtwork): Vector {
+  return normalize(MOCK_CONCEPTS.map((concept) => artwork.visual[concept.name] ?? 0));
+}
+
+function vectorFor(artwork: MockArtwork, type: ComparisonType): Vector {
+  return type === 'image' ? imageVector(artwork) : embedText(`${artwork.title} ${artwork.description}`);
+}
+
+// 1 - cosine similarity; a zero vector is equally far from everything
+function cosineDistance(a: Vector, b: Vector) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? 1 - dot / Math.sqrt(normA * normB) : 1;
+}
+
+function escapeXml(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// A flat placeholder in the color of the artwork's strongest visual concept
+export function placeholderImage(artwork: MockArtwork) {
+  const [dominant] = Object.entries(artwork.visual).sort(([, a], [, b]) => b - a);
+  const color = MOCK_CONCEPTS.find((concept) => concept.name === dominant?.[0])?.color ?? '#888888';
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300" viewBox="0 0 400 300">`
+    + `<rect width="400" height="300" fill="${color}"/>`
+    + `<text x="200" y="155" font-family="sans-serif" font-size="20" fill="#ffffff" text-anchor="middle">${escapeXml(artwork.title)}</text>`
+    + `</svg>`;
+}
+
+function imageUrl(artwork: MockArtwork, origin: string) {
+  return `${origin}/api/mock/images/${artwork.id}.svg`;
+}
+
+const CREATED_AT = '2024-01-01T00:00:00.000Z';
+
+type ImageEmbeddingData = NonNullable<ArtworkItem['image_embedding_data']>;
+
+function boundingBox([x, y, w, h]: MockBox) {
+  return { x, y, w, h };
+}
+
+// Vision analysis in the shape the API returns it: tags for the artwork's
+// visual concepts and detected objects, and captions for the whole image and
+// each object. Stronger concepts get more confident tags.
+function imageEmbeddingData(artwork: MockArtwork, url: string): ImageEmbeddingData {
+  const objects = artwork.objects ?? [];
+  const conceptTags = Object.entries(artwork.visual)
+    .map(([name, weight]) => ({ name, confidence: Math.round((0.5 + weight * 0.49) * 100) / 100 }));
+  const objectTags = [...new Set(objects.map((object) => object.name))].map((name) => ({ name, confidence: 0.9 }));
+
+  return {
+    description_generation_data: {
+      analysis_data: {
+        caption: artwork.caption,
+        denseCaption: [
+          { text: artwork.caption, confidence: 0.85, boundingBox: boundingBox([0, 0, 400, 300]) },
+          ...objects.map((object) => ({ text: `${/^[aeiou]/.test(object.name) ? 'an' : 'a'} ${object.name}`, confidence: 0.75, boundingBox: boundingBox(object.box) })),
+        ],
+        tags: [...conceptTags, ...objectTags],
+        objects: objects.map((object) => ({
+          boundingBox: boundingBox(object.box),
+          tags: [{ name: object.name, confidence: 0.9 }],
+        })),
+        peopleLocation: (artwork.people ?? []).map((box) => ({ boundingBox: boundingBox(box), confidence: 0.9 })),
+      },
+      aic_description: null,
+    },
+    description: artwork.caption,
+    generated_at: CREATED_AT,
+    image_url: url,
+  };
+}
+
+function toItem(artwork: MockArtwork, type: ComparisonType, origin: string, distance?: number): ArtworkItem {
+  const url = imageUrl(artwork, origin);
+  return {
+    // Row ids are per artwork and vector type, like the API's
+    id: artwork.id * 10 + (type === 'image' ? 1 : 0),
+    created_at: CREATED_AT,
+    updated_at: CREATED_AT,
+    version: '1',
+    model_name: 'mock',
+    model_id: artwork.id,
+    data: {
+      description: `${artwork.title}. ${artwork.description}`,
+      generated_at: CREATED_AT,
+      image_url: url,
+    },
+    embedding: { vector: vectorFor(artwork, type) },
+    distance: distance === undefined ? '' : distance.toFixed(6),
+    embedding_type: type,
+    image_embedding_data: imageEmbeddingData(artwork, url),
+  };
+}
+
+function findArtwork(id: string) {
+  return MOCK_ARTWORKS.find((artwork) => String(artwork.id) === id);
+}
+
+function page(searchParams: URLSearchParams) {
+  const limit = parseInt(searchParams.get('limit') ?? '', 10);
+  const offset = parseInt(searchParams.get('offset') ?? '', 10);
+  return {
+    limit: Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_PAGE_SIZE,
+    offset: Number.isFinite(offset) && offset > 0 ? offset : 0,
+  };
+}
+
+// Rank the artworks in one index by distance to a vector
+function rank(
+  vector: Vector,
+  index: ComparisonType,
+  searchParams: URLSearchParams,
+  origin: string,
+  exclude: number[] = []
+): MockResponse {
+  const { limit, offset } = page(searchParams);
+  const ranked = MOCK_ARTWORKS
+    .filter((artwork) => !exclude.includes(artwork.id))
+    .map((artwork) => ({ artwork, distance: cosineDistance(vector, vectorFor(artwork, index)) }))
+    .sort((a, b) => a.distance - b.distance || a.artwork.id - b.artwork.id);
+  const items = ranked.slice(offset, offset + limit).map(({ artwork, distance }) => toItem(artwork, index, origin, distance));
+
+  const body: SearchResults = { count: items.length, items, model: 'mock', id: null, total: ranked.length };
+  return { status: 200, body };
+}
+
+function notFound(detail: string): MockResponse {
+  return { status: 404, body: { detail } };
+}
+
+function invalid(detail: string): MockResponse {
+  return { status: 422, body: { detail } };
+}
+
+function vectorType(value: string | undefined): ComparisonType {
+  return value === 'image' ? 'image' : 'text';
+}
+
+function analogy(searchParams: URLSearchParams, origin: string): MockResponse {
+  let terms: unknown;
+  try {
+    terms = JSON.parse(searchParams.get('terms') ?? '');
+  } catch {
+    return invalid('terms must be a JSON array');
+  }
+  if (!Array.isArray(terms) || terms.length === 0) {
+    return invalid('terms must be a non-empty JSON array');
+  }
+
+  const vector = MOCK_CONCEPTS.map(() => 0);
+  const artworkIds: number[] = [];
+  for (const term of terms) {
+    const { type, value, weight } = (term ?? {}) as Record<string, unknown>;
+    if (typeof value !== 'string' || typeof weight !== 'number') {
+      return invalid('Each term needs a string value and a numeric weight');
+    }
+
+    let termVector: Vector;
+    if (type === 'artwork') {
+      const artwork = findArtwork(value);
+      if (!artwork) {
+        return notFound(`Artwork ${value} not found`);
+      }
+      artworkIds.push(artwork.id);
+      termVector = vectorFor(artwork, 'text');
+    } else {
+      termVector = embedText(value);
+    }
+    termVector.forEach((component, index) => {
+      vector[index] += weight * component;
+    });
+  }
+
+  return rank(vector, 'text', searchParams, origin, artworkIds);
+}
+
+// Image search only understands the mock's own placeholder image URLs; an
+// uploaded file can't be embedded without a model
+function imageSearch(form: FormData | null, searchParams: URLSearchParams, origin: string): MockResponse {
+  const url = form?.get('image_url');
+  const match = typeof url === 'string' ? url.match(/\/api\/mock\/images\/(\d+)\.svg$/) : null;
+  if (!match) {
+    return invalid('The mock API can only search by the image URL of one of its fixture artworks');
+  }
+  const artwork = findArtwork(match[1]);
+  if (!artwork) {
+    return notFound(`Artwork ${match[1]} not found`);
+  }
+  return rank(vectorFor(artwork, 'image'), 'image', searchParams, origin);
+}
+
+// Answer a request for `path` (relative to /api/mock). `origin` is where the
+// mock is served, for image URLs.
+export function handleMockRequest(
+  method: string,
+  path: string,
+  searchParams: URLSearchParams,
+  origin: string,
+  form: FormData | null = null
+): MockResponse {
+  let match = path.match(/^\/images\/(\d+)\.svg$/);
+  if (match && method === 'GET') {
+    const artwork = findArtwork(match[1]);
+    return artwork
+      ? { status: 200, body: placeholderImage(artwork), contentType: 'image/svg+xml' }
+      : notFound(`Artwork ${match[1]} not found`);
+  }
+
+  if (path === '/ai/v1/artworks/search/image') {
+    return method === 'POST' ? imageSearch(form, searchParams, origin) : { status: 405, body: { detail: 'Method Not Allowed' } };
+  }
+
+  if (method !== 'GET') {
+    return { status: 405, body: { detail: 'Method Not Allowed' } };
+  }
+
+  match = path.match(/^\/ai\/v1\/(?:(text|image)\/)?artworks\/search$/);
+  if (match) {
+    const query = searchParams.get('q') ?? '';
+    if (!query.trim()) {
+      return invalid('q is required');
+    }
+    return rank(embedText(query), vectorType(match[1]), searchParams, origin);
+  }
+
+  if (path === '/ai/v1/artworks/analogy') {
+    return analogy(searchParams, origin);
+  }
+
+  // /artworks/{id}/nearest searches text vectors from the artwork's text vector
+  match = path.match(/^\/ai\/v1\/(?:(text|image)\/)?artworks\/([^/]+)\/nearest(?:\/(text|image))?$/);
+  if (match) {
+    const artwork = findArtwork(match[2]);
+    if (!artwork) {
+      return notFound(`Artwork ${match[2]} not found`);
+    }
+    const source = vectorType(match[1]);
+    return rank(vectorFor(artwork, source), vectorType(match[3] ?? source), searchParams, origin, [artwork.id]);
+  }
+
+  match = path.match(/^\/ai\/v1\/(text|image)\/artworks\/([^/]+)\/compare\/(text|image)\/artworks\/([^/]+)$/);
+  if (match) {
+    const [, firstType, firstId, secondType, secondId] = match;
+    const first = findArtwork(firstId);
+    const second = findArtwork(secondId);
+    if (!first || !second) {
+      return notFound(`Artwork ${first ? secondId : firstId} not found`);
+    }
+    const distance = cosineDistance(vectorFor(first, vectorType(firstType)), vectorFor(second, vectorType(secondType)));
+    const body: SimilarityResults = {
+      similarity_scores: [{
+        embedding_type: firstType === secondType ? firstType : `${firstType}_${secondType}`,
+        similarity_score: 1 - distance,
+        items: { id1: first.id, id2: second.id },
+      }],
+    };
+    return { status: 200, body };
+  }
+
+  // Artworks nearest the midpoint of the two
+  match = path.match(/^\/ai\/v1\/(text|image)\/artworks\/([^/]+)\/between\/artworks\/([^/]+)$/);
+  if (match) {
+    const [, type, firstId, secondId] = match;
+    const first = findArtwork(firstId);
+    const second = findArtwork(secondId);
+    if (!first || !second) {
+      return notFound(`Artwork ${first ? secondId : firstId} not found`);
+    }
+    const index = vectorType(type);
+    const a = vectorFor(first, index);
+    const b = vectorFor(second, index);
+    return rank(a.map((value, i) => (value + b[i]) / 2), index, searchParams, origin, [first.id, second.id]);
+  }
+
+  match = path.match(/^\/ai\/v1\/artworks\/([^/]+)$/);
+  if (match) {
+    const artwork = findArtwork(match[1]);
+    return artwork ? { status: 200, body: toItem(artwork, 'text', origin) } : notFound(`Artwork ${match[1]} not found`);
+  }
+
+  return notFound('Not Found');
+}
@@ -0,0 +1,174 @@
+// Fixture artworks for the mock embeddings API (see mockApi.ts). The
+// artworks are invented; their vectors live in a small space of named
+// concepts so that distances between them mean something.
+
+export interface MockConcept {
+  name: string;
+  keywords: string[];
+  // Placeholder image background for artworks dominated by this concept
+  color: string;
+}
+
+export const MOCK_CONCEPTS: MockConcept[] = [
+  { name: 'landscape', keywords: ['landscape', 'field', 'fields', 'hill', 'hills', 'mountain', 'mountains', 'countryside', 'meadow', 'valley', 'trees', 'forest'], color: '#6b8e4e' },
+  { name: 'water', keywords: ['water', 'sea', 'river', 'lake', 'ocean', 'boat', 'boats', 'harbor', 'waves', 'pond', 'rain', 'rainy'], color: '#3b6ea5' },
+  { name: 'winter', keywords: ['winter', 'snow', 'snowy', 'ice', 'frozen', 'cold'], color: '#c9d6e3' },
+  { name: 'summer', keywords: ['summer', 'sun', 'sunny', 'sunlight', 'beach', 'bright', 'warm'], color: '#e8b84a' },
+  { name: 'night', keywords: ['night', 'evening', 'dusk', 'moon', 'moonlight', 'dark', 'lamp', 'stars'], color: '#1f2a44' },
+  { name: 'portrait', keywords: ['portrait', 'woman', 'man', 'girl', 'boy', 'child', 'figure', 'figures', 'face', 'people', 'couple'], color: '#a9745b' },
+  { name: 'city', keywords: ['city', 'street', 'streets', 'building', 'buildings', 'urban', 'cafe', 'diner', 'bridge', 'town', 'village'], color: '#7a7a7a' },
+  { name: 'flowers', keywords: ['flower', 'flowers', 'garden', 'blossom', 'blossoms', 'lilies', 'roses', 'bouquet'], color: '#c86b8a' },
+  { name: 'animal', keywords: ['animal', 'animals', 'horse', 'horses', 'dog', 'cat', 'bird', 'birds', 'cow', 'cattle'], color: '#8a6a3b' },
+  { name: 'religious', keywords: ['saint', 'madonna', 'angel', 'angels', 'church', 'altar', 'christ', 'prayer'], color: '#b8902f' },
+  { name: 'abstract', keywords: ['abstract', 'geometric', 'shapes', 'lines', 'color', 'colors', 'composition'], color: '#d0452f' },
+  { name: 'still life', keywords: ['still', 'fruit', 'table', 'vase', 'bowl', 'bottle', 'apples'], color: '#9c5a2e' },
+];
+
+// x, y, width and height in pixels of the 400×300 placeholder image
+export type MockBox = [number, number, number, number];
+
+export interface MockArtwork {
+  id: number;
+  title: string;
+  description: string;
+  // What the picture looks like, by concept name (0-1); the image vector
+  visual: Record<string, number>;
+  // Vision analysis: a caption for the whole image, detected objects and people
+  caption: string;
+  objects?: Array<{ name: string; box: MockBox }>;
+  people?: MockBox[];
+}
+
+export const MOCK_ARTWORKS: MockArtwork[] = [
+  {
+    id: 1001,
+    title: 'Harbor at Dusk',
+    description: 'Fishing boats rest in a quiet harbor at dusk, the water holding the last orange light of evening.',
+    visual: { water: 1, night: 0.6, summer: 0.2 },
+    caption: 'fishing boats in a harbor at dusk',
+    objects: [{ name: 'boat', box: [40, 170, 120, 70] }, { name: 'boat', box: [220, 180, 110, 60] }],
+  },
+  {
+    id: 1002,
+    title: 'Snowy Village',
+    description: 'A small village under deep snow in winter, smoke rising from chimneys against a cold grey sky.',
+    visual: { winter: 1, city: 0.5, landscape: 0.4 },
+    caption: 'a snowy village in winter',
+    objects: [{ name: 'house', box: [60, 120, 110, 100] }, { name: 'house', box: [230, 110, 120, 110] }],
+  },
+  {
+    id: 1003,
+    title: 'Wheat Fields in Summer',
+    description: 'Golden wheat fields stretch toward distant hills under a bright summer sun.',
+    visual: { landscape: 1, summer: 0.9 },
+    caption: 'a wheat field under a bright sky',
+    objects: [{ name: 'tree', box: [300, 100, 50, 90] }],
+  },
+  {
+    id: 1004,
+    title: 'Portrait of a Woman in Blue',
+    description: 'A seated woman in a blue dress looks out at the viewer; a formal portrait with a dark background.',
+    visual: { portrait: 1, night: 0.3 },
+    caption: 'a woman in a blue dress',
+    objects: [{ name: 'dress', box: [130, 150, 140, 150] }],
+    people: [[120, 30, 160, 270]],
+  },
+  {
+    id: 1005,
+    title: 'Night Diner',
+    description: 'Figures sit at the counter of a brightly lit diner on an empty city street at night.',
+    visual: { city: 0.9, night: 1, portrait: 0.4 },
+    caption: 'people sitting in a diner at night',
+    objects: [{ name: 'building', box: [20, 40, 360, 220] }],
+    people: [[120, 140, 50, 110], [200, 140, 50, 110]],
+  },
+  {
+    id: 1006,
+    title: 'Water Lilies',
+    description: 'Water lilies float on a still pond in a garden, flowers and reflections dissolving into color.',
+    visual: { water: 0.8, flowers: 1, abstract: 0.3 },
+    caption: 'water lilies on a pond',
+    objects: [{ name: 'flower', box: [80, 140, 60, 40] }, { name: 'flower', box: [240, 180, 60, 40] }],
+  },
+  {
+    id: 1007,
+    title: 'Rainy Street',
+    description: 'People with umbrellas cross a wide city street on a rainy day, the paving stones wet with rain.',
+    visual: { city: 1, water: 0.4, portrait: 0.5 },
+    caption: 'people with umbrellas on a street',
+    objects: [{ name: 'umbrella', box: [90, 80, 80, 50] }, { name: 'umbrella', box: [230, 90, 80, 50] }],
+    people: [[100, 110, 50, 150], [240, 120, 50, 140]],
+  },
+  {
+    id: 1008,
+    title: 'Still Life with Apples',
+    description: 'Apples and a bottle on a table beside a white bowl; a still life in warm earth colors.',
+    visual: { 'still life': 1, summer: 0.2 },
+    caption: 'apples and a bottle on a table',
+    objects: [{ name: 'apple', box: [110, 190, 50, 45] }, { name: 'apple', box: [170, 195, 50, 45] }, { name: 'bottle', box: [260, 90, 50, 150] }],
+  },
+  {
+    id: 1009,
+    title: 'Madonna and Child',
+    description: 'The Madonna holds the Christ child, flanked by angels, on a gold altar panel from a church.',
+    visual: { religious: 1, portrait: 0.6 },
+    caption: 'a woman holding a child',
+    people: [[120, 40, 160, 240], [170, 130, 70, 100]],
+  },
+  {
+    id: 1010,
+    title: 'Composition in Red and Black',
+    description: 'An abstract composition of geometric shapes and heavy black lines with blocks of red color.',
+    visual: { abstract: 1 },
+    caption: 'an abstract painting of red and black shapes',
+  },
+  {
+    id: 1011,
+    title: 'Horses in a Meadow',
+    description: 'Two horses graze in a green meadow by a line of trees in the countryside.',
+    visual: { animal: 1, landscape: 0.8, summer: 0.3 },
+    caption: 'two horses in a field',
+    objects: [{ name: 'horse', box: [60, 150, 130, 100] }, { name: 'horse', box: [220, 160, 120, 90] }],
+  },
+  {
+    id: 1012,
+    title: 'Frozen River',
+    description: 'Skaters on a frozen river in winter, bare trees along the banks under a pale sky.',
+    visual: { winter: 0.9, water: 0.6, landscape: 0.5, portrait: 0.2 },
+    caption: 'people skating on a frozen river',
+    objects: [{ name: 'tree', box: [20, 40, 60, 150] }],
+    people: [[150, 170, 30, 70], [230, 175, 30, 65]],
+  },
+  {
+    id: 1013,
+    title: 'Moonlight over the Sea',
+    description: 'A full moon lights a path across dark ocean waves on a calm night.',
+    visual: { water: 1, night: 1 },
+    caption: 'the moon over the sea at night',
+    objects: [{ name: 'moon', box: [180, 30, 50, 50] }],
+  },
+  {
+    id: 1014,
+    title: 'Garden Bouquet',
+    description: 'A bouquet of roses and garden flowers in a glass vase on a table.',
+    visual: { flowers: 1, 'still life': 0.7 },
+    caption: 'a vase of flowers on a table',
+    objects: [{ name: 'vase', box: [160, 150, 80, 120] }, { name: 'flower', box: [140, 50, 120, 100] }],
+  },
+  {
+    id: 1015,
+    title: 'Mother and Child at the Beach',
+    description: 'A mother and child play on a sunny beach by the sea on a warm summer afternoon.',
+    visual: { portrait: 0.8, summer: 1, water: 0.6 },
+    caption: 'a woman and a child on a beach',
+    people: [[110, 100, 70, 170], [200, 160, 50, 110]],
+  },
+  {
+    id: 1016,
+    title: 'Birds over a Winter Field',
+    description: 'A flock of birds crosses a snowy field at dusk, dark trees on the horizon.',
+    visual: { animal: 0.7, winter: 1, landscape: 0.7, night: 0.3 },
+    caption: 'birds flying over a snowy field',
+    objects: [{ name: 'bird', box: [100, 60, 40, 20] }, { name: 'bird', box: [180, 50, 40, 20] }, { name: 'bird', box: [250, 70, 40, 20] }],
+  },
+];
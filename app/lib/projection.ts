@@ -0,0 +1,217 @@
+import type { ArtworkItem } from './embeddings';
+
+export type ProjectionMethod = 'pca' | 'tsne';
+
+export const PROJECTION_METHODS: Array<{ method: ProjectionMethod; label: string }> = [
+  { method: 'pca', label: 'PCA' },
+  { method: 'tsne', label: 't-SNE' },
+];
+
+export type Point = [number, number];
+
+export interface ProjectionRequest {
+  method: ProjectionMethod;
+  vectors: number[][];
+}
+
+export type ProjectionResponse = { points: Point[] } | { error: string };
+
+function isNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length > 0 && value.every((entry) => typeof entry === 'number');
+}
+
+// The API's embedding field isn't strictly typed: accept a bare vector, a
+// pgvector-style "[0.1,0.2,...]" string, or the first vector-valued property.
+export function embeddingVector(item: ArtworkItem): number[] | null {
+  const candidates: unknown[] = [item.embedding];
+  if (item.embedding && typeof item.embedding === 'object' && !Array.isArray(item.embedding)) {
+    candidates.push(...Object.values(item.embedding));
+  }
+
+  for (const candidate of candidates) {
+    if (isNumberArray(candidate)) {
+      return candidate;
+    }
+    if (typeof candidate === 'string' && candidate.startsWith('[')) {
+      try {
+        const parsed: unknown = JSON.parse(candidate);
+        if (isNumberArray(parsed)) {
+          return parsed;
+        }
+      } catch {
+        // Not a serialized vector
+      }
+    }
+  }
+
+  return null;
+}
+
+function dot(a: number[], b: number[]) {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+// Top eigenvectors of a symmetric matrix by power iteration with deflation
+function topEigenvectors(matrix: number[][], count: number, iterations = 200) {
+  const size = matrix.length;
+  const work = matrix.map((row) => [...row]);
+  const result: Array<{ value: number; vector: number[] }> = [];
+
+  for (let k = 0; k < count; k++) {
+    // Deterministic, non-degenerate start vector
+    let vector = Array.from({ length: size }, (_, i) => Math.sin(i + 1 + k));
+    let value = 0;
+
+    for (let iter = 0; iter < iterations; iter++) {
+      const next = work.map((row) => dot(row, vector));
+      const norm = Math.sqrt(dot(next, next));
+      if (norm === 0) {
+        break;
+      }
+      vector = next.map((entry) => entry / norm);
+      value = norm;
+    }
+
+    result.push({ value, vector });
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) {
+        work[i][j] -= value * vector[i] * vector[j];
+      }
+    }
+  }
+
+  return result;
+}
+
+// PCA through the n×n Gram matrix, which stays small for a page of results
+// even though embeddings have hundreds of dimensions.
+export function pca(vectors: number[][]): Point[] {
+  const size = vectors.length;
+  if (size === 0) {
+    return [];
+  }
+
+  const dims = vectors[0].length;
+  const mean = new Array(dims).fill(0);
+  vectors.forEach((vector) => vector.forEach((value, d) => { mean[d] += value / size; }));
+  const centered = vectors.map((vector) => vector.map((value, d) => value - mean[d]));
+
+  const gram = centered.map((a) => centered.map((b) => dot(a, b)));
+  const [first, second] = topEigenvectors(gram, 2);
+
+  return centered.map((_, i) => [
+    first.vector[i] * Math.sqrt(Math.max(first.value, 0)),
+    (second?.vector[i] ?? 0) * Math.sqrt(Math.max(second?.value ?? 0, 0)),
+  ]);
+}
+
+function squaredDistances(vectors: number[][]) {
+  return vectors.map((a) => vectors.map((b) => {
+    let sum = 0;
+    for (let d = 0; d < a.length; d++) {
+      const diff = a[d] - b[d];
+      sum += diff * diff;
+    }
+    return sum;
+  }));
+}
+
+// Row-wise Gaussian affinities calibrated by binary search to the perplexity
+function affinities(distances: number[][], perplexity: number) {
+  const size = distances.length;
+  const target = Math.log(perplexity);
+
+  const rows = distances.map((row, i) => {
+    let beta = 1;
+    let low = 0;
+    let high = Infinity;
+    let probabilities: number[] = [];
+
+    for (let iter = 0; iter < 50; iter++) {
+      probabilities = row.map((distance, j) => (i === j ? 0 : Math.exp(-distance * beta)));
+      const sum = probabilities.reduce((total, p) => total + p, 0) || 1e-12;
+      const entropy = Math.log(sum) + beta * row.reduce((total, distance, j) => total + distance * probabilities[j], 0) / sum;
+      probabilities = probabilities.map((p) => p / sum);
+
+      if (Math.abs(entropy - target) < 1e-5) {
+        break;
+      }
+      if (entropy > target) {
+        low = beta;
+        beta = high === Infinity ? beta * 2 : (beta + high) / 2;
+      } else {
+        high = beta;
+        beta = (beta + low) / 2;
+      }
+    }
+
+    return probabilities;
+  });
+
+  // Symmetrize
+  return rows.map((row, i) => row.map((p, j) => Math.max((p + rows[j][i]) / (2 * size), 1e-12)));
+}
+
+// Exact t-SNE, initialized from PCA. Fine for the ~100 points of a result page.
+export function tsne(vectors: number[][], iterations = 500): Point[] {
+  const size = vectors.length;
+  if (size < 3) {
+    return pca(vectors);
+  }
+
+  const distances = squaredDistances(vectors);
+  // Normalize so the perplexity search starts in a sensible range
+  const maxDistance = Math.max(...distances.flat()) || 1;
+  const P = affinities(distances.map((row) => row.map((d) => d / maxDistance)), Math.min(30, (size - 1) / 3));
+
+  const initial = pca(vectors);
+  const scale = Math.max(...initial.flat().map(Math.abs)) || 1;
+  const Y = initial.map(([x, y]) => [x / scale * 1e-2, y / scale * 1e-2]);
+  const velocity = Y.map(() => [0, 0]);
+  const learningRate = 100;
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const exaggeration = iter < 100 ? 4 : 1;
+    const momentum = iter < 250 ? 0.5 : 0.8;
+
+    const num = Y.map((a, i) => Y.map((b, j) => {
+      if (i === j) {
+        return 0;
+      }
+      const dx = a[0] - b[0];
+      const dy = a[1] - b[1];
+      return 1 / (1 + dx * dx + dy * dy);
+    }));
+    const sumQ = num.reduce((total, row) => total + row.reduce((rowTotal, q) => rowTotal + q, 0), 0) || 1e-12;
+
+    for (let i = 0; i < size; i++) {
+      let gx = 0;
+      let gy = 0;
+      for (let j = 0; j < size; j++) {
+        if (i === j) {
+          continue;
+        }
+        const multiplier = 4 * (exaggeration * P[i][j] - num[i][j] / sumQ) * num[i][j];
+        gx += multiplier * (Y[i][0] - Y[j][0]);
+        gy += multiplier * (Y[i][1] - Y[j][1]);
+      }
+      velocity[i][0] = momentum * velocity[i][0] - learningRate * gx;
+      velocity[i][1] = momentum * velocity[i][1] - learningRate * gy;
+    }
+
+    Y.forEach((point, i) => {
+      point[0] += velocity[i][0];
+      point[1] += velocity[i][1];
+    });
+  }
+
+  return Y.map(([x, y]) => [x, y]);
+}
+
+export function project({ method, vectors }: ProjectionRequest): Point[] {
+  return method === 'tsne' ? tsne(vectors) : pca(vectors);
+}
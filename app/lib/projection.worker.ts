@@ -0,0 +1,12 @@
+import { project, type ProjectionRequest, type ProjectionResponse } from './projection';
+
+// Runs projections off the main thread so t-SNE doesn't freeze the page
+self.onmessage = (event: MessageEvent<ProjectionRequest>) => {
+  let response: ProjectionResponse;
+  try {
+    response = { points: project(event.data) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : 'Projection failed' };
+  }
+  self.postMessage(response);
+};
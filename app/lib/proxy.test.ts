@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { fetchUpstream } from './proxy';
+
+const UPSTREAM_URL = new URL('https://api.example.com/ai/v1/artworks/search?q=sea');
+
+function mockFetch(...responses: Array<() => Response>) {
+  const fetch = vi.fn<typeof globalThis.fetch>(async () => (responses.shift() ?? (() => Response.json({})))());
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+describe('fetchUpstream', () => {
+  beforeEach(() => {
+    vi.stubEnv('AIC_UPSTREAM_RETRIES', '2');
+  });
+
+  it('retries retryable statuses after the Retry-After delay', async () => {
+    const fetch = mockFetch(
+      () => new Response('busy', { status: 503, headers: { 'Retry-After': '0' } }),
+      () => Response.json({ count: 0 })
+    );
+
+    expect(await fetchUpstream(UPSTREAM_URL, { method: 'GET' })).toEqual({ status: 200, ok: true, data: { count: 0 }, attempts: 2 });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not call the API for a request that was already cancelled', async () => {
+    const fetch = mockFetch();
+
+    await expect(fetchUpstream(UPSTREAM_URL, { method: 'GET' }, AbortSignal.abort()))
+      .rejects.toMatchObject({ code: 'CLIENT_CLOSED_REQUEST', status: 499 });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('stops backing off as soon as the request is cancelled', async () => {
+    const fetch = mockFetch(() => new Response('busy', { status: 503, headers: { 'Retry-After': '5' } }));
+    const controller = new AbortController();
+
+    const result = expect(fetchUpstream(UPSTREAM_URL, { method: 'GET' }, controller.signal))
+      .rejects.toMatchObject({ code: 'CLIENT_CLOSED_REQUEST', status: 499 });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    const started = Date.now();
+    controller.abort();
+
+    await result;
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('takes the timeout and retries from the caller', async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>((_, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+    vi.stubGlobal('fetch', fetch);
+
+    await expect(fetchUpstream(UPSTREAM_URL, { method: 'GET' }, undefined, { timeoutMs: 20, retries: 0 }))
+      .rejects.toMatchObject({ code: 'UPSTREAM_TIMEOUT', status: 504 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,373 @@
+// Helpers shared by the /api/artwork proxy routes
+
+import { NextResponse } from 'next/server';
+import { cacheKey, cacheTtl, responseCache } from './cache';
+import { sleep } from './concurrency';
+import { MAX_OFFSET, MAX_PAGE_SIZE, endpointType, isPageInRange } from './embeddings';
+import { getEnvironment, resolveUpstreamUrl, type ApiEnvironment } from './environments';
+import { proxyDuration, proxyRequests, upstreamDuration } from './metrics';
+import { clientKey, rateLimiter } from './rateLimit';
+import { configured } from './settings';
+
+// Every proxy error comes back as { code, message, upstreamStatus? }
+export function errorResponse(
+  code: string,
+  message: string,
+  status: number,
+  { upstreamStatus, headers }: { upstreamStatus?: number; headers?: Record<string, string> } = {}
+) {
+  return NextResponse.json({ code, message, upstreamStatus }, { status, headers });
+}
+
+// An error with the response it should become; route handlers throw these
+// from anywhere and turn them into responses in one place
+export class ProxyError extends Error {
+  code: string;
+  status: number;
+  upstreamStatus?: number;
+
+  constructor(code: string, message: string, status: number, upstreamStatus?: number) {
+    super(message);
+    this.name = 'ProxyError';
+    this.code = code;
+    this.status = status;
+    this.upstreamStatus = upstreamStatus;
+  }
+
+  toResponse(headers?: Record<string, string>) {
+    return errorResponse(this.code, this.message, this.status, { upstreamStatus: this.upstreamStatus, headers });
+  }
+}
+
+export function upstreamHeaders(env: ApiEnvironment & { token?: string }): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/json',
+  };
+  if (env.token) {
+    headers['Authorization'] = `Bearer ${env.token}`;
+  }
+  return headers;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 250;
+const MAX_BACKOFF_MS = 5000;
+
+// Statuses worth another attempt: the upstream or a gateway in front of it
+// may recover
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+export interface UpstreamResponse {
+  status: number;
+  ok: boolean;
+  // Parsed JSON body; null when an error response wasn't JSON (e.g. an HTML
+  // error page from a gateway)
+  data: unknown;
+  attempts: number;
+}
+
+// Exponential backoff with jitter, or the upstream's Retry-After when it
+// sends one; both capped
+function backoff(attempt: number, retryAfter?: string | null) {
+  const seconds = retryAfter ? parseInt(retryAfter, 10) : NaN;
+  if (Number.isFinite(seconds)) {
+    return Math.min(seconds * 1000, MAX_BACKOFF_MS);
+  }
+  return Math.min(BACKOFF_BASE_MS * 2 ** attempt * (1 + Math.random()), MAX_BACKOFF_MS);
+}
+
+export function pageOutOfRange() {
+  return errorResponse('PAGE_OUT_OF_RANGE', `limit can be at most ${MAX_PAGE_SIZE} and offset at most ${MAX_OFFSET}`, 400);
+}
+
+function cancelled() {
+  return new ProxyError('CLIENT_CLOSED_REQUEST', 'Request was cancelled', 499);
+}
+
+// Wait before the next attempt, giving up as soon as the client goes away
+async function waitToRetry(ms: number, signal?: AbortSignal) {
+  try {
+    await sleep(ms, signal);
+  } catch {
+    throw cancelled();
+  }
+}
+
+// Overrides of the configured timeout and retries for one call
+export interface UpstreamOptions {
+  timeoutMs?: number;
+  retries?: number;
+}
+
+// Call the embeddings API with a timeout per attempt (AIC_UPSTREAM_TIMEOUT_MS)
+// and, for GETs, bounded retries (AIC_UPSTREAM_RETRIES) on network errors,
+// timeouts and retryable statuses. Aborting `signal` (the client going away)
+// stops immediately.
+export async function fetchUpstream(
+  url: URL,
+  init: RequestInit,
+  signal?: AbortSignal,
+  options: UpstreamOptions = {}
+): Promise<UpstreamResponse> {
+  const timeoutMs = options.timeoutMs ?? configured('AIC_UPSTREAM_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+  const retries = (init.method ?? 'GET') === 'GET'
+    ? options.retries ?? configured('AIC_UPSTREAM_RETRIES', DEFAULT_RETRIES)
+    : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    // An 'abort' listener never fires for a signal that is already aborted,
+    // so check before every attempt
+    if (signal?.aborted) {
+      throw cancelled();
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+      text = await response.text();
+    } catch {
+      if (signal?.aborted) {
+        throw cancelled();
+      }
+      if (attempt < retries) {
+        await waitToRetry(backoff(attempt), signal);
+        continue;
+      }
+      throw controller.signal.aborted
+        ? new ProxyError('UPSTREAM_TIMEOUT', `Embeddings API did not respond within ${timeoutMs / 1000}s`, 504)
+        : new ProxyError('UPSTREAM_UNREACHABLE', 'Could not reach the embeddings API', 502);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (RETRYABLE_STATUSES.has(response.status) && attempt < retries) {
+      await waitToRetry(backoff(attempt, response.headers.get('Retry-After')), signal);
+      continue;
+    }
+
+    let data: unknown = null;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      if (response.ok) {
+        throw new ProxyError(
+          'UPSTREAM_INVALID_RESPONSE',
+          'Embeddings API returned a response that was not JSON',
+          502,
+          response.status
+        );
+      }
+    }
+
+    return { status: response.status, ok: response.ok, data, attempts: attempt + 1 };
+  }
+}
+
+function upstreamMessage(data: unknown, status: number) {
+  const body = data && typeof data === 'object' ? data as Record<string, unknown> : {};
+  const message = [body.message, body.detail, body.error].find((value) => typeof value === 'string' && value);
+  return (message as string | undefined) ?? `Embeddings API returned HTTP ${status}`;
+}
+
+// An upstream error response in the proxy's error shape. Client errors keep
+// their status; server errors become a 502 from the proxy.
+export function upstreamErrorResponse({ status, data }: UpstreamResponse, headers?: Record<string, string>) {
+  const message = upstreamMessage(data, status);
+  if (status >= 500) {
+    return errorResponse('UPSTREAM_UNAVAILABLE', message, 502, { upstreamStatus: status, headers });
+  }
+  if (status === 404) {
+    return errorResponse('UPSTREAM_NOT_FOUND', message, 404, { upstreamStatus: status, headers });
+  }
+  if (status === 429) {
+    return errorResponse('UPSTREAM_RATE_LIMITED', message, 429, { upstreamStatus: status, headers });
+  }
+  return errorResponse('UPSTREAM_ERROR', message, status, { upstreamStatus: status, headers });
+}
+
+interface RequestDetails {
+  endpoint?: string;
+  env?: string;
+  path?: string;
+  upstreamStatus?: number;
+  upstreamMs?: number;
+  attempts?: number;
+}
+
+// Rate limiting, structured logging and metrics for one proxy request. Route
+// handlers fill in details as they learn them and pass their response
+// through finish().
+export class ProxyRequest {
+  private startedAt = performance.now();
+  private details: RequestDetails = {};
+  readonly client: string;
+
+  constructor(private request: Request, private route: string) {
+    this.client = clientKey(request);
+  }
+
+  set(details: RequestDetails) {
+    Object.assign(this.details, details);
+  }
+
+  // A 429 response when the client is out of tokens, otherwise null
+  rateLimit(): NextResponse | null {
+    const { allowed, retryAfter } = rateLimiter.take(this.client);
+    if (allowed) {
+      return null;
+    }
+    return errorResponse('RATE_LIMITED', `Too many requests; retry in ${retryAfter}s`, 429, {
+      headers: { 'Retry-After': String(retryAfter) },
+    });
+  }
+
+  // Time a call to the embeddings API, including any retries
+  async upstream(call: () => Promise<UpstreamResponse>): Promise<UpstreamResponse> {
+    const startedAt = performance.now();
+    try {
+      const response = await call();
+      this.set({ upstreamStatus: response.status, attempts: response.attempts });
+      return response;
+    } catch (error) {
+      if (error instanceof ProxyError) {
+        this.set({ upstreamStatus: error.upstreamStatus });
+      }
+      throw error;
+    } finally {
+      const seconds = (performance.now() - startedAt) / 1000;
+      this.set({ upstreamMs: Math.round(seconds * 1000) });
+      upstreamDuration.observe({ endpoint: this.details.endpoint ?? 'unknown' }, seconds);
+    }
+  }
+
+  async finish(response: NextResponse): Promise<NextResponse> {
+    const seconds = (performance.now() - this.startedAt) / 1000;
+    const endpoint = this.details.endpoint ?? 'unknown';
+    const cache = response.headers.get('X-Cache') ?? 'NONE';
+
+    let code: string | undefined;
+    if (!response.ok) {
+      try {
+        code = (await response.clone().json()).code;
+      } catch {
+        code = undefined;
+      }
+    }
+
+    proxyRequests.inc({ endpoint, status: String(response.status), cache });
+    proxyDuration.observe({ endpoint }, seconds);
+
+    const entry = {
+      time: new Date().toISOString(),
+      level: response.status >= 500 ? 'error' : response.status >= 400 ? 'warn' : 'info',
+      msg: 'proxy_request',
+      route: this.route,
+      method: this.request.method,
+      client: this.client,
+      ...this.details,
+      status: response.status,
+      code,
+      cache,
+      durationMs: Math.round(seconds * 1000),
+    };
+    console.log(JSON.stringify(entry));
+
+    return response;
+  }
+}
+
+// Answer a GET for an API path in an environment, through the response cache.
+// Both the /api/artwork route and server-rendered pages go through this;
+// `signal` is the client going away.
+export async function proxyGet(
+  envId: string | null,
+  path: string | null,
+  proxyRequest: ProxyRequest,
+  signal?: AbortSignal,
+  options?: UpstreamOptions
+): Promise<NextResponse> {
+  try {
+    if (path) {
+      proxyRequest.set({ endpoint: endpointType(path), path });
+    }
+
+    if (!path) {
+      return errorResponse('MISSING_PATH', 'Path is required', 400);
+    }
+
+    const env = getEnvironment(envId);
+    if (!env) {
+      return errorResponse('UNKNOWN_ENVIRONMENT', `Unknown API environment: ${envId}`, 400);
+    }
+    proxyRequest.set({ env: env.id });
+
+    // Construct the full URL, refusing anything outside the allowlist
+    const url = resolveUpstreamUrl(env, path);
+    if (!url) {
+      return errorResponse('PATH_NOT_ALLOWED', 'Path is not allowed', 403);
+    }
+    if (!isPageInRange(url.searchParams)) {
+      return pageOutOfRange();
+    }
+
+    // Serve from the cache when this endpoint type is cached at all. Cache
+    // hits don't count against the rate limit, which protects the upstream.
+    const ttl = cacheTtl(endpointType(path));
+    const key = cacheKey(env.id, path);
+
+    if (ttl > 0) {
+      const cached = await responseCache.get(key);
+      if (cached) {
+        return NextResponse.json(cached.body, {
+          headers: {
+            'X-Upstream-Url': cached.upstreamUrl,
+            'X-Cache': 'HIT',
+            'Age': String(Math.floor((Date.now() - cached.storedAt) / 1000)),
+          },
+        });
+      }
+    }
+
+    const limited = proxyRequest.rateLimit();
+    if (limited) {
+      return limited;
+    }
+
+    // Make the request to the API
+    const response = await proxyRequest.upstream(() => fetchUpstream(url, {
+      method: 'GET',
+      headers: upstreamHeaders(env),
+    }, signal, options));
+
+    const data = response.data;
+    const responseHeaders = {
+      'X-Upstream-Url': url.toString(),
+      'X-Cache': ttl > 0 ? 'MISS' : 'BYPASS',
+      'Age': '0',
+    };
+
+    if (!response.ok) {
+      return upstreamErrorResponse(response, responseHeaders);
+    }
+
+    if (ttl > 0) {
+      await responseCache.set(key, data, url.toString(), ttl);
+    }
+
+    return NextResponse.json(data, { headers: responseHeaders });
+  } catch (error) {
+    if (error instanceof ProxyError) {
+      return error.toResponse();
+    }
+    console.error('API Error:', error);
+    return errorResponse('PROXY_ERROR', 'Failed to fetch results', 500);
+  }
+}
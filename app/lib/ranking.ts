@@ -0,0 +1,44 @@
+// Comparisons between two ranked lists of artwork IDs
+
+// Fraction of the top k of each list that appears in the other's top k
+export function overlapAtK(first: string[], second: string[], k: number): number {
+  const top = new Set(second.slice(0, k));
+  const shared = first.slice(0, k).filter((id) => top.has(id)).length;
+  const size = Math.min(k, Math.max(first.length, second.length));
+  return size > 0 ? shared / size : 0;
+}
+
+// Kendall's tau between the orders two lists give to the items they share.
+// Returns null when fewer than two items are shared.
+export function kendallTau(first: string[], second: string[]): number | null {
+  const secondRanks = new Map(second.map((id, index) => [id, index]));
+  const shared = first.filter((id) => secondRanks.has(id));
+  if (shared.length < 2) {
+    return null;
+  }
+
+  let concordant = 0;
+  let discordant = 0;
+  for (let i = 0; i < shared.length; i++) {
+    for (let j = i + 1; j < shared.length; j++) {
+      // In `first` order, i always ranks above j
+      if (secondRanks.get(shared[i])! < secondRanks.get(shared[j])!) {
+        concordant++;
+      } else {
+        discordant++;
+      }
+    }
+  }
+
+  return (concordant - discordant) / (concordant + discordant);
+}
+
+// How far each item in `second` moved relative to `first`: positive means it
+// ranks higher in `second`; null means it isn't in `first` at all.
+export function rankChanges(first: string[], second: string[]): Map<string, number | null> {
+  const firstRanks = new Map(first.map((id, index) => [id, index]));
+  return new Map(second.map((id, index) => {
+    const before = firstRanks.get(id);
+    return [id, before === undefined ? null : before - index];
+  }));
+}
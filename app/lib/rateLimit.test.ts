@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter, clientKey } from './rateLimit';
+
+function request(forwardedFor?: string) {
+  return new Request('http://localhost:3000/api/artwork', {
+    headers: forwardedFor ? { 'X-Forwarded-For': forwardedFor } : {},
+  });
+}
+
+describe('RateLimiter', () => {
+  it('allows a burst, then refills over time', () => {
+    const limiter = new RateLimiter(60, 2);
+
+    expect(limiter.take('a', 0)).toEqual({ allowed: true, remaining: 1, retryAfter: 0 });
+    expect(limiter.take('a', 0)).toEqual({ allowed: true, remaining: 0, retryAfter: 0 });
+    expect(limiter.take('a', 0)).toEqual({ allowed: false, remaining: 0, retryAfter: 1 });
+    expect(limiter.take('b', 0).allowed).toBe(true);
+    expect(limiter.take('a', 1000).allowed).toBe(true);
+  });
+
+  it('is disabled by a zero rate', () => {
+    const limiter = new RateLimiter(0, 2);
+    for (let i = 0; i < 5; i++) {
+      expect(limiter.take('a', 0).allowed).toBe(true);
+    }
+  });
+});
+
+describe('clientKey', () => {
+  it('uses the address Next.js or the nearest proxy recorded', () => {
+    expect(clientKey(request('203.0.113.7'))).toBe('203.0.113.7');
+    expect(clientKey(request('1.2.3.4, 203.0.113.7'))).toBe('203.0.113.7');
+    expect(clientKey(request('1.2.3.4, 203.0.113.7'), 1)).toBe('203.0.113.7');
+  });
+
+  it('ignores addresses the client sent through trusted proxies', () => {
+    expect(clientKey(request('1.2.3.4, 203.0.113.7, 10.0.0.2'), 2)).toBe('203.0.113.7');
+    expect(clientKey(request('5.6.7.8, 203.0.113.7, 10.0.0.2'), 2)).toBe('203.0.113.7');
+  });
+
+  it('falls back to the first entry when there are fewer than the trusted proxies', () => {
+    expect(clientKey(request('203.0.113.7'), 3)).toBe('203.0.113.7');
+  });
+
+  it('shares one bucket for requests without an address', () => {
+    expect(clientKey(request())).toBe('unknown');
+    expect(clientKey(new Request('http://localhost:3000/', { headers: { 'X-Real-IP': '1.2.3.4' } }))).toBe('unknown');
+  });
+});
@@ -0,0 +1,100 @@
+// Per-client token-bucket rate limiting for the proxy routes. Each client
+// gets a bucket of `burst` tokens that refills at `perMinute` tokens a
+// minute; a request takes one token or is refused.
+
+import { configured } from './settings';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until a token is available again; 0 when allowed
+  retryAfter: number;
+}
+
+const DEFAULT_PER_MINUTE = 60;
+// Half of the largest similarity matrix (8 artworks, 120 compare calls) at once
+const DEFAULT_BURST = 60;
+
+// Buckets left idle long enough to refill are dropped once there are this
+// many, so one-off clients don't accumulate
+const PRUNE_THRESHOLD = 10000;
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private perMinute: number, private burst: number) {}
+
+  get enabled() {
+    return this.perMinute > 0 && this.burst > 0;
+  }
+
+  private refill(bucket: Bucket, now: number) {
+    const elapsed = Math.max(0, now - bucket.updatedAt) / 60000;
+    bucket.tokens = Math.min(this.burst, bucket.tokens + elapsed * this.perMinute);
+    bucket.updatedAt = now;
+  }
+
+  take(key: string, now = Date.now()): RateLimitResult {
+    if (!this.enabled) {
+      return { allowed: true, remaining: Infinity, retryAfter: 0 };
+    }
+
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      if (this.buckets.size >= PRUNE_THRESHOLD) {
+        this.prune(now);
+      }
+      bucket = { tokens: this.burst, updatedAt: now };
+      this.buckets.set(key, bucket);
+    } else {
+      this.refill(bucket, now);
+    }
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfter: 0 };
+    }
+
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfter: Math.ceil(((1 - bucket.tokens) / this.perMinute) * 60),
+    };
+  }
+
+  private prune(now: number) {
+    this.buckets.forEach((bucket, key) => {
+      this.refill(bucket, now);
+      if (bucket.tokens >= this.burst) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+// The address a request came from. Next.js sets X-Forwarded-For to the
+// connection's address when a request arrives without one, and each reverse
+// proxy appends the address it was connected from, so only entries at the
+// end can be believed: the last one without proxies, and with
+// AIC_TRUST_PROXY set to the number of proxies in front of the app, the one
+// that many places from the end. Anything before that is whatever the client
+// chose to send.
+export function clientKey(request: Request, trustedProxies = configured('AIC_TRUST_PROXY', 0)): string {
+  const forwarded = (request.headers.get('X-Forwarded-For') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwarded[Math.max(0, forwarded.length - Math.max(1, trustedProxies))] ?? 'unknown';
+}
+
+// Shared across requests for the lifetime of the server process.
+// AIC_RATE_LIMIT_PER_MINUTE=0 disables rate limiting.
+export const rateLimiter = new RateLimiter(
+  configured('AIC_RATE_LIMIT_PER_MINUTE', DEFAULT_PER_MINUTE),
+  configured('AIC_RATE_LIMIT_BURST', DEFAULT_BURST)
+);
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_OFFSET, MAX_PAGE_SIZE } from './embeddings';
+import { EMPTY_FILTERS } from './filters';
+import {
+  DEFAULT_SEARCH_STATE,
+  hasSearchParams,
+  isRunnable,
+  readSearchState,
+  stateToQuery,
+  writeSearchState,
+  type SearchState,
+} from './searchState';
+
+function roundTrip(state: SearchState, options?: Parameters<typeof writeSearchState>[1]) {
+  return readSearchState(new URLSearchParams(writeSearchState(state, options).toString()));
+}
+
+describe('share links', () => {
+  it.each<[string, Partial<SearchState>]>([
+    ['semantic', { queryType: 'semantic', searchQuery: 'winter snow & ice', limit: 10, offset: 20 }],
+    ['hybrid semantic', { queryType: 'semantic', searchQuery: 'sea', modality: 'hybrid', imageWeight: 0.25 }],
+    ['nearest neighbor', { queryType: 'nearest_neighbor', artworkId: '1001', modality: 'image', sourceType: 'text' }],
+    ['compare', { queryType: 'compare', artworkId: '1001', compareId: '1013', firstArtworkType: 'image', secondArtworkType: 'text' }],
+    ['between', { queryType: 'between', artworkId: '1002', compareId: '1012', comparisonType: 'image' }],
+    ['image', { queryType: 'image', imageUrl: 'https://example.com/a.jpg?size=large', offset: 30 }],
+    ['analogy', {
+      queryType: 'analogy',
+      analogyTerms: [
+        { kind: 'artwork', value: '1002', weight: 1 },
+        { kind: 'text', value: 'winter', weight: -1 },
+        { kind: 'text', value: 'summer', weight: 0.5 },
+      ],
+    }],
+    ['environment, filters and view', {
+      queryType: 'semantic',
+      searchQuery: 'portrait',
+      environment: 'local',
+      filters: { ...EMPTY_FILTERS, maxDistance: 0.4 },
+      resultsView: 'map',
+    }],
+  ])('round-trips a %s search', (_, changes) => {
+    const state = { ...DEFAULT_SEARCH_STATE, ...changes };
+    expect(roundTrip(state)).toEqual(state);
+  });
+
+  it('only writes the parameters the query type uses', () => {
+    const params = writeSearchState({
+      ...DEFAULT_SEARCH_STATE,
+      queryType: 'compare',
+      searchQuery: 'left over from semantic',
+      artworkId: '1',
+      compareId: '2',
+      limit: 50,
+    });
+    expect(params.toString()).toBe('type=compare&id=1&compareId=2&firstArtworkType=text&secondArtworkType=text');
+  });
+
+  it('leaves out the default environment and uploaded images', () => {
+    const state = { ...DEFAULT_SEARCH_STATE, queryType: 'image' as const, imageUrl: 'https://example.com/a.jpg', environment: 'test' };
+    expect(writeSearchState(state, { defaultEnvironment: 'test', hasImageFile: true }).toString()).toBe('type=image');
+  });
+
+  it('falls back to the defaults for invalid parameters', () => {
+    const state = readSearchState(new URLSearchParams('type=bogus&limit=-5&offset=x&imageWeight=3&modality=all&expr=%28%28'));
+    expect(state).toEqual(DEFAULT_SEARCH_STATE);
+  });
+
+  it('clamps the page to the largest size and offset allowed', () => {
+    const state = readSearchState(new URLSearchParams('q=sea&limit=500000&offset=99999999'));
+    expect(state.limit).toBe(MAX_PAGE_SIZE);
+    expect(state.offset).toBe(MAX_OFFSET);
+  });
+
+  it('tells search links from bare page loads', () => {
+    expect(hasSearchParams(new URLSearchParams(''))).toBe(false);
+    expect(hasSearchParams(new URLSearchParams('view=map'))).toBe(false);
+    expect(hasSearchParams(new URLSearchParams('q=sea'))).toBe(true);
+  });
+
+  it('restores a runnable query from a link', () => {
+    const state = readSearchState(new URLSearchParams('type=nearest_neighbor&id=1005&limit=10&offset=10'));
+    expect(isRunnable(state)).toBe(true);
+    expect(stateToQuery(state)).toEqual({
+      type: 'nearest_neighbor',
+      id: '1005',
+      sourceType: 'text',
+      modality: 'default',
+      imageWeight: DEFAULT_SEARCH_STATE.imageWeight,
+      limit: 10,
+      offset: 10,
+    });
+    expect(isRunnable(readSearchState(new URLSearchParams('type=between&id=1005')))).toBe(false);
+  });
+});
@@ -0,0 +1,275 @@
+// The search page's form and view state, and its mapping to and from the
+// page URL. The URL is the source of truth: share links, history entries and
+// back/forward navigation all restore a search through readSearchState.
+
+import {
+  COMPARISON_TYPES,
+  DEFAULT_IMAGE_WEIGHT,
+  DEFAULT_PAGE_SIZE,
+  MAX_OFFSET,
+  MAX_PAGE_SIZE,
+  QUERY_TYPES,
+  SEARCH_MODALITIES,
+  toEmbeddingsQuery,
+  type ComparisonType,
+  type EmbeddingsQuery,
+  type EmbeddingsResult,
+  type PageOptions,
+  type QueryType,
+  type SearchModality,
+} from './embeddings';
+import { formatAnalogy, parseAnalogy, type AnalogyTerm } from './analogy';
+import { EMPTY_FILTERS, hasActiveFilters, readFilterParams, writeFilterParams, type ResultFilters } from './filters';
+
+export type ResultsView = 'grid' | 'map';
+
+export interface SearchState {
+  queryType: QueryType;
+  searchQuery: string;
+  artworkId: string;
+  compareId: string;
+  imageUrl: string;
+  analogyTerms: AnalogyTerm[];
+  comparisonType: ComparisonType;
+  firstArtworkType: ComparisonType;
+  secondArtworkType: ComparisonType;
+  modality: SearchModality;
+  imageWeight: number;
+  sourceType: ComparisonType;
+  limit: number;
+  offset: number;
+  // Empty for the server's default environment
+  environment: string;
+  filters: ResultFilters;
+  resultsView: ResultsView;
+}
+
+// A search run while rendering the page on the server, handed to the client
+// so it doesn't have to run it again
+export interface InitialSearch {
+  query: EmbeddingsQuery;
+  env: string;
+  result: EmbeddingsResult;
+}
+
+export const DEFAULT_SEARCH_STATE: SearchState = {
+  queryType: 'semantic',
+  searchQuery: '',
+  artworkId: '',
+  compareId: '',
+  imageUrl: '',
+  analogyTerms: [{ kind: 'artwork', value: '', weight: 1 }],
+  comparisonType: 'text',
+  firstArtworkType: 'text',
+  secondArtworkType: 'text',
+  modality: 'default',
+  imageWeight: DEFAULT_IMAGE_WEIGHT,
+  sourceType: 'text',
+  limit: DEFAULT_PAGE_SIZE,
+  offset: 0,
+  environment: '',
+  filters: EMPTY_FILTERS,
+  resultsView: 'grid',
+};
+
+export function isPaged(type: QueryType) {
+  return type === 'semantic' || type === 'nearest_neighbor' || type === 'image' || type === 'analogy';
+}
+
+// The page of results a query asked for; compare and between aren't paged
+export function queryPage(query: EmbeddingsQuery): Required<PageOptions> {
+  const page: PageOptions = query.type === 'compare' || query.type === 'between' ? {} : query;
+  return { limit: page.limit ?? DEFAULT_PAGE_SIZE, offset: page.offset ?? 0 };
+}
+
+// Query types that can target a specific vector index
+export function hasModality(type: QueryType) {
+  return type === 'semantic' || type === 'nearest_neighbor';
+}
+
+// Terms from an "expr" URL parameter; a malformed expression is ignored
+function parseAnalogyParam(value: string | null): AnalogyTerm[] | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    const terms = parseAnalogy(value);
+    return terms.length > 0 ? terms : null;
+  } catch {
+    return null;
+  }
+}
+
+// A limit or offset, clamped to `max`
+function parsePageParam(value: string | null, max: number) {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.min(parsed, max) : null;
+}
+
+// The page size a URL asks for, within bounds
+export function readPageLimit(params: URLSearchParams) {
+  return parsePageParam(params.get('limit'), MAX_PAGE_SIZE) || DEFAULT_PAGE_SIZE;
+}
+
+function oneOf<T extends string>(value: string | null, allowed: T[], fallback: T): T {
+  return value && (allowed as string[]).includes(value) ? value as T : fallback;
+}
+
+// Missing or invalid parameters fall back to the defaults
+export function readSearchState(params: URLSearchParams): SearchState {
+  const defaults = DEFAULT_SEARCH_STATE;
+  const imageWeight = parseFloat(params.get('imageWeight') ?? '');
+
+  return {
+    queryType: oneOf(params.get('type'), QUERY_TYPES, defaults.queryType),
+    searchQuery: params.get('q') ?? '',
+    artworkId: params.get('id') ?? '',
+    compareId: params.get('compareId') ?? '',
+    imageUrl: params.get('imageUrl') ?? '',
+    analogyTerms: parseAnalogyParam(params.get('expr')) ?? defaults.analogyTerms,
+    comparisonType: oneOf(params.get('comparisonType'), COMPARISON_TYPES, defaults.comparisonType),
+    firstArtworkType: oneOf(params.get('firstArtworkType'), COMPARISON_TYPES, defaults.firstArtworkType),
+    secondArtworkType: oneOf(params.get('secondArtworkType'), COMPARISON_TYPES, defaults.secondArtworkType),
+    modality: oneOf(params.get('modality'), SEARCH_MODALITIES, defaults.modality),
+    imageWeight: imageWeight >= 0 && imageWeight <= 1 ? imageWeight : defaults.imageWeight,
+    sourceType: oneOf(params.get('sourceType'), COMPARISON_TYPES, defaults.sourceType),
+    limit: readPageLimit(params),
+    offset: parsePageParam(params.get('offset'), MAX_OFFSET) ?? defaults.offset,
+    environment: params.get('env') ?? '',
+    filters: readFilterParams(params),
+    resultsView: params.get('view') === 'map' ? 'map' : 'grid',
+  };
+}
+
+// Whether the URL describes a search at all, as opposed to a bare page load
+export function hasSearchParams(params: URLSearchParams): boolean {
+  return ['type', 'q', 'id', 'compareId', 'imageUrl', 'expr', 'env', 'comparisonType', 'firstArtworkType', 'secondArtworkType']
+    .some((name) => params.has(name))
+    || hasActiveFilters(readFilterParams(params));
+}
+
+// Only the parameters the selected query type uses are written. Uploaded
+// images can't be shared, so an image URL is only written without one.
+export function writeSearchState(
+  state: SearchState,
+  { defaultEnvironment = '', hasImageFile = false }: { defaultEnvironment?: string; hasImageFile?: boolean } = {}
+): URLSearchParams {
+  const { queryType } = state;
+  const params = new URLSearchParams();
+
+  params.set('type', queryType);
+
+  if (queryType === 'semantic' && state.searchQuery) {
+    params.set('q', state.searchQuery);
+  }
+
+  if (queryType === 'image' && state.imageUrl && !hasImageFile) {
+    params.set('imageUrl', state.imageUrl);
+  }
+
+  if (queryType === 'analogy') {
+    params.set('expr', formatAnalogy(state.analogyTerms));
+  }
+
+  if ((queryType === 'nearest_neighbor' || queryType === 'compare' || queryType === 'between') && state.artworkId) {
+    params.set('id', state.artworkId);
+  }
+
+  if ((queryType === 'compare' || queryType === 'between') && state.compareId) {
+    params.set('compareId', state.compareId);
+  }
+
+  if (queryType === 'between') {
+    params.set('comparisonType', state.comparisonType);
+  }
+
+  if (queryType === 'compare') {
+    params.set('firstArtworkType', state.firstArtworkType);
+    params.set('secondArtworkType', state.secondArtworkType);
+  }
+
+  if (hasModality(queryType) && state.modality !== 'default') {
+    params.set('modality', state.modality);
+    if (state.modality === 'hybrid') {
+      params.set('imageWeight', String(state.imageWeight));
+    }
+    if (queryType === 'nearest_neighbor') {
+      params.set('sourceType', state.sourceType);
+    }
+  }
+
+  if (isPaged(queryType)) {
+    if (state.limit !== DEFAULT_PAGE_SIZE) {
+      params.set('limit', String(state.limit));
+    }
+    if (state.offset > 0) {
+      params.set('offset', String(state.offset));
+    }
+  }
+
+  if (state.environment && state.environment !== defaultEnvironment) {
+    params.set('env', state.environment);
+  }
+
+  writeFilterParams(params, state.filters);
+
+  if (state.resultsView !== 'grid') {
+    params.set('view', state.resultsView);
+  }
+
+  return params;
+}
+
+export function stateToQuery(state: SearchState, image: Blob | null = null): EmbeddingsQuery {
+  return toEmbeddingsQuery(state.queryType, {
+    query: state.searchQuery,
+    id: state.artworkId,
+    compareId: state.compareId,
+    image,
+    imageUrl: state.imageUrl,
+    terms: state.analogyTerms,
+    comparisonType: state.comparisonType,
+    firstType: state.firstArtworkType,
+    secondType: state.secondArtworkType,
+    modality: state.modality,
+    imageWeight: state.imageWeight,
+    sourceType: state.sourceType,
+    limit: state.limit,
+    offset: state.offset,
+  });
+}
+
+// Query types a result card can pivot to
+export type Pivot = 'nearest_neighbor' | 'compare' | 'between';
+
+// The search for a pivot from a result: its nearest neighbors, or a compare
+// or between search against a second artwork. The environment, vector types
+// and index carry over; paging and filters start afresh.
+export function pivotState(state: SearchState, pivot: Pivot, id: number, otherId?: number): SearchState {
+  return {
+    ...state,
+    queryType: pivot,
+    artworkId: String(id),
+    compareId: otherId === undefined ? '' : String(otherId),
+    offset: 0,
+    filters: EMPTY_FILTERS,
+  };
+}
+
+// Whether the state has what its query type needs to run, e.g. when
+// restoring a search from the URL
+export function isRunnable(state: SearchState, image: Blob | null = null): boolean {
+  switch (state.queryType) {
+    case 'semantic':
+      return !!state.searchQuery.trim();
+    case 'nearest_neighbor':
+      return !!state.artworkId.trim();
+    case 'compare':
+    case 'between':
+      return !!state.artworkId.trim() && !!state.compareId.trim();
+    case 'image':
+      return !!image || !!state.imageUrl.trim();
+    case 'analogy':
+      return state.analogyTerms.some((term) => term.value.trim());
+  }
+}
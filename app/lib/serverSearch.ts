@@ -0,0 +1,89 @@
+// Running searches while rendering on the server: search pages embed their
+// results, and link previews describe them.
+
+import { headers } from 'next/headers';
+import { getArtwork, runEmbeddingsQuery, type EmbeddingsResult, type EmbeddingsTransport } from './embeddings';
+import { ProxyRequest, proxyGet, type UpstreamOptions } from './proxy';
+import { isRunnable, readSearchState, stateToQuery, type InitialSearch } from './searchState';
+
+// A page waits on its search before it can stream, so a slow or failing API
+// gets one short attempt; the browser then runs the search itself with the
+// proxy's usual timeout and retries.
+const SERVER_UPSTREAM: UpstreamOptions = { timeoutMs: 3000, retries: 0 };
+
+// Calls the API the way the /api/artwork proxy does (cache, rate limit, logs
+// and metrics) without an HTTP round trip. `request` is the page request, so
+// the rate limit applies to the client that asked for the page.
+export function serverTransport(env: string, request: Request): EmbeddingsTransport {
+  return async (apiPath, signal) => {
+    const proxyRequest = new ProxyRequest(request, 'page');
+    return proxyRequest.finish(await proxyGet(env || null, apiPath, proxyRequest, signal, SERVER_UPSTREAM));
+  };
+}
+
+// The incoming request as seen by a server component
+export async function pageRequest(): Promise<Request> {
+  return new Request('http://localhost/', { headers: new Headers(await headers()) });
+}
+
+// Run the search a page URL describes. Image searches, incomplete searches and
+// failed ones give null and are left to the browser, which reports errors.
+export async function runInitialSearch(params: URLSearchParams, request: Request): Promise<InitialSearch | null> {
+  const state = readSearchState(params);
+  if (state.queryType === 'image' || !isRunnable(state)) {
+    return null;
+  }
+
+  const query = stateToQuery(state);
+  try {
+    const result = await runEmbeddingsQuery(query, {
+      transport: serverTransport(state.environment, request),
+      waitForRateLimit: false,
+    });
+    return { query, env: state.environment, result };
+  } catch (error) {
+    console.error('Server search error:', error);
+    return null;
+  }
+}
+
+// Longest description excerpt in a summary
+const EXCERPT_LENGTH = 80;
+
+function excerpt(text: string) {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  return trimmed.length > EXCERPT_LENGTH ? `${trimmed.slice(0, EXCERPT_LENGTH - 1)}…` : trimmed;
+}
+
+// One or two sentences about a result, for page descriptions and previews
+export function summarizeResult(result: EmbeddingsResult): string {
+  if (result.kind === 'similarity') {
+    return result.data.similarity_scores
+      .map((score) => `${score.embedding_type} similarity ${score.similarity_score.toFixed(3)}`)
+      .join(', ');
+  }
+
+  const { items, total, count } = result.data;
+  const top = items.slice(0, 3).map((item) => excerpt(item.data?.description || `Artwork ${item.model_id}`));
+  return `${total ?? count} results. ${top.length > 0 ? `Top matches: ${top.join('; ')}` : ''}`.trim();
+}
+
+// Up to `count` image URLs for a search's preview: the top results, or the
+// two artworks compared
+export async function previewImages(search: InitialSearch, request: Request, count = 4): Promise<string[]> {
+  const { query, env, result } = search;
+  if (result.kind === 'search') {
+    return result.data.items.map((item) => item.data?.image_url).filter(Boolean).slice(0, count);
+  }
+
+  if (query.type !== 'compare' && query.type !== 'between') {
+    return [];
+  }
+  const transport = serverTransport(env, request);
+  const artworks = await Promise.allSettled(
+    [query.id, query.compareId].map((id) => getArtwork(id.trim(), { transport, waitForRateLimit: false }))
+  );
+  return artworks.flatMap((artwork) => (artwork.status === 'fulfilled' && artwork.value.item.data?.image_url
+    ? [artwork.value.item.data.image_url]
+    : []));
+}
@@ -0,0 +1,14 @@
+// Server settings read from environment variables
+
+// A non-negative integer setting; anything else gives the fallback
+export function configured(name: string, fallback: number) {
+  const value = parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Whether a request carries the bearer token held in the environment
+// variable `name`. An endpoint whose token isn't set is open to everyone.
+export function isAuthorized(request: Request, name: string) {
+  const token = process.env[name];
+  return !token || request.headers.get('Authorization') === `Bearer ${token}`;
+}
@@ -0,0 +1,75 @@
+import type { ArtworkItem, BoundingBox } from './embeddings';
+
+export type OverlayLayer = 'denseCaption' | 'objects' | 'peopleLocation';
+
+export interface OverlayBox {
+  layer: OverlayLayer;
+  label: string;
+  confidence: number;
+  boundingBox: BoundingBox;
+}
+
+export type AnalysisData = NonNullable<ArtworkItem['image_embedding_data']>['description_generation_data']['analysis_data'];
+
+export function analysisData(item: ArtworkItem): AnalysisData | undefined {
+  return item.image_embedding_data?.description_generation_data?.analysis_data;
+}
+
+// Flatten the dense captions, detected objects and people into one list of
+// labelled boxes. Objects are labelled with their most confident tag.
+export function overlayBoxes(item: ArtworkItem): OverlayBox[] {
+  const analysis = analysisData(item);
+  if (!analysis) {
+    return [];
+  }
+
+  const captions = (analysis.denseCaption ?? []).map((caption): OverlayBox => ({
+    layer: 'denseCaption',
+    label: caption.text,
+    confidence: caption.confidence,
+    boundingBox: caption.boundingBox,
+  }));
+
+  const objects = (analysis.objects ?? []).map((object): OverlayBox => {
+    const [top] = [...(object.tags ?? [])].sort((a, b) => b.confidence - a.confidence);
+    return {
+      layer: 'objects',
+      label: top?.name ?? 'object',
+      confidence: top?.confidence ?? 0,
+      boundingBox: object.boundingBox,
+    };
+  });
+
+  const people = (analysis.peopleLocation ?? []).map((person): OverlayBox => ({
+    layer: 'peopleLocation',
+    label: 'person',
+    confidence: person.confidence,
+    boundingBox: person.boundingBox,
+  }));
+
+  return [...captions, ...objects, ...people];
+}
+
+export interface TagComparison {
+  shared: string[];
+  onlyFirst: string[];
+  onlySecond: string[];
+}
+
+// Split two artworks' vision tags into those they share and those unique to
+// each, ignoring tags below the confidence threshold.
+export function compareTags(first: ArtworkItem, second: ArtworkItem, minConfidence = 0): TagComparison {
+  const names = (item: ArtworkItem) => new Set(
+    (analysisData(item)?.tags ?? [])
+      .filter((tag) => tag.confidence >= minConfidence)
+      .map((tag) => tag.name)
+  );
+  const firstTags = names(first);
+  const secondTags = names(second);
+
+  return {
+    shared: [...firstTags].filter((tag) => secondTags.has(tag)),
+    onlyFirst: [...firstTags].filter((tag) => !secondTags.has(tag)),
+    onlySecond: [...secondTags].filter((tag) => !firstTags.has(tag)),
+  };
+}
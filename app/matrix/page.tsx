@@ -0,0 +1,281 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { AlertTriangle, ArrowLeft, Download, Grid3x3, RotateCcw } from "lucide-react";
+import EnvironmentSelect from "../components/EnvironmentSelect";
+import Heatmap from "../components/Heatmap";
+import { useEnvironments } from "../hooks/useEnvironments";
+import { downloadFile } from "../lib/download";
+import {
+  MATRIX_KINDS,
+  MAX_MATRIX_IDS,
+  clusterOrder,
+  computeMatrices,
+  countPairTasks,
+  matricesToCsv,
+  matricesToJson,
+  parseIdList,
+  type MatrixKind,
+  type MatrixResult,
+} from "../lib/matrix";
+
+const CONCURRENCY_OPTIONS = [1, 2, 4, 8];
+const DEFAULT_CONCURRENCY = 4;
+
+function SimilarityMatrixContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { environments, defaultEnvironment } = useEnvironments();
+
+  const [environment, setEnvironment] = useState(searchParams.get('env') || '');
+  const [idsInput, setIdsInput] = useState((searchParams.get('ids') || '').split(',').join(', '));
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+  const [kind, setKind] = useState<MatrixKind>('text');
+  const [clustered, setClustered] = useState(true);
+  const [computed, setComputed] = useState<({ ids: string[]; env: string } & MatrixResult) | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setEnvironment((current) => current || defaultEnvironment);
+  }, [defaultEnvironment]);
+
+  // Stop any in-flight computation when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const ids = parseIdList(idsInput);
+
+  const handleCompute = async () => {
+    if (ids.length < 2) {
+      setError('Enter at least two artwork IDs');
+      return;
+    }
+    if (ids.length > MAX_MATRIX_IDS) {
+      setError(`At most ${MAX_MATRIX_IDS} artwork IDs can be compared at once`);
+      return;
+    }
+
+    setComputed(null);
+
+    const params = new URLSearchParams({ ids: ids.join(',') });
+    if (environment && environment !== defaultEnvironment) {
+      params.set('env', environment);
+    }
+    const newUrl = `${window.location.pathname}?${params.toString()}`;
+    window.history.pushState({ path: newUrl }, '', newUrl);
+
+    await run(ids, environment);
+  };
+
+  // Compute the matrices for ids, or only the failed pairs of `retry`
+  const run = async (runIds: string[], env: string, retry?: MatrixResult) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setError(null);
+    setProgress({ done: 0, total: retry ? retry.failed.length : countPairTasks(runIds.length) });
+
+    try {
+      const result = await computeMatrices(
+        runIds,
+        concurrency,
+        { env, signal: controller.signal },
+        (done, total) => setProgress({ done, total }),
+        retry
+      );
+      setComputed({ ids: runIds, env, ...result });
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Failed to compute matrix');
+        console.error('Matrix error:', err);
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    setProgress(null);
+  };
+
+  const matrix = computed?.matrices[kind];
+  const order = useMemo(
+    () => (matrix ? (clustered ? clusterOrder(matrix) : matrix.map((_, i) => i)) : []),
+    [matrix, clustered]
+  );
+
+  const handleCellClick = (i: number, j: number) => {
+    if (!computed || (i === j && kind !== 'cross')) {
+      return;
+    }
+    const { firstType, secondType } = MATRIX_KINDS.find((entry) => entry.kind === kind)!;
+    const params = new URLSearchParams({
+      type: 'compare',
+      id: computed.ids[i],
+      compareId: computed.ids[j],
+      firstArtworkType: firstType,
+      secondArtworkType: secondType,
+    });
+    if (computed.env && computed.env !== defaultEnvironment) {
+      params.set('env', computed.env);
+    }
+    router.push(`/?${params.toString()}`);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-8">
+        <Link href="/" className="inline-flex items-center text-sm text-blue-600 hover:underline mb-4">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to search
+        </Link>
+        <h1 className="text-3xl font-bold mb-4 text-white-900">Similarity Matrix</h1>
+
+        <div className="space-y-4 mb-6">
+          <EnvironmentSelect environments={environments} value={environment} onChange={setEnvironment} />
+
+          <div>
+            <label className="block text-sm font-medium mb-2 text-white-900">
+              Artwork IDs ({ids.length}/{MAX_MATRIX_IDS})
+            </label>
+            <textarea
+              value={idsInput}
+              onChange={(e) => setIdsInput(e.target.value)}
+              placeholder="Enter artwork IDs separated by commas, spaces or new lines..."
+              rows={3}
+              className="w-full p-2 border rounded-lg text-gray-900"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2 text-white-900">Concurrent Requests</label>
+            <select
+              value={concurrency}
+              onChange={(e) => setConcurrency(parseInt(e.target.value, 10))}
+              className="w-full p-2 border rounded-lg text-gray-900"
+            >
+              {CONCURRENCY_OPTIONS.map((value) => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </div>
+
+          {progress ? (
+            <div className="space-y-2">
+              <div className="h-3 w-full bg-gray-200 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-600" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+              </div>
+              <div className="flex justify-between items-center text-sm">
+                <span>Computed {progress.done} of {progress.total} scores</span>
+                <button
+                  onClick={handleCancel}
+                  className="text-xs bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded-full"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={handleCompute}
+              className="flex items-center justify-center w-full p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-blue-300"
+            >
+              <Grid3x3 className="w-4 h-4 mr-2" />
+              Compute Matrix ({countPairTasks(Math.min(ids.length, MAX_MATRIX_IDS))} comparisons)
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="text-red-600 p-4 rounded-lg bg-red-50 mb-4">
+            {error}
+          </div>
+        )}
+
+        {computed && computed.failed.length > 0 && !progress && (
+          <div className="flex flex-wrap items-center justify-between gap-2 text-amber-800 p-4 rounded-lg bg-amber-50 mb-4">
+            <span className="flex items-center">
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              {computed.failed.length} of {countPairTasks(computed.ids.length)} comparisons failed and are left blank.
+            </span>
+            <button
+              onClick={() => run(computed.ids, computed.env, computed)}
+              className="flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+            >
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Retry failed
+            </button>
+          </div>
+        )}
+
+        {computed && matrix && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+              <div className="flex gap-2">
+                {MATRIX_KINDS.map((entry) => (
+                  <button
+                    key={entry.kind}
+                    onClick={() => setKind(entry.kind)}
+                    className={`px-3 py-1 text-sm rounded ${kind === entry.kind ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+                  >
+                    {entry.label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-1 text-sm">
+                  <input type="checkbox" checked={clustered} onChange={(e) => setClustered(e.target.checked)} />
+                  Cluster order
+                </label>
+                <button
+                  onClick={() => downloadFile('similarity-matrix.csv', matricesToCsv(computed.ids, computed.matrices), 'text/csv')}
+                  className="flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+                >
+                  <Download className="w-4 h-4 mr-1" />
+                  CSV
+                </button>
+                <button
+                  onClick={() => downloadFile('similarity-matrix.json', matricesToJson(computed.ids, computed.matrices, computed.env), 'application/json')}
+                  className="flex items-center px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+                >
+                  <Download className="w-4 h-4 mr-1" />
+                  JSON
+                </button>
+              </div>
+            </div>
+
+            <div className="border rounded-lg p-4 bg-white">
+              <Heatmap ids={computed.ids} matrix={matrix} order={order} onCellClick={handleCellClick} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Loading fallback for Suspense
+function MatrixLoading() {
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex items-center justify-center h-40">
+        <div className="text-lg">Loading...</div>
+      </div>
+    </div>
+  );
+}
+
+export default function SimilarityMatrixPage() {
+  return (
+    <Suspense fallback={<MatrixLoading />}>
+      <SimilarityMatrixContent />
+    </Suspense>
+  );
+}
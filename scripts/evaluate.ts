@@ -0,0 +1,99 @@
+// Batch relevance evaluation of semantic search through a running app's
+// /api/artwork proxy.
+//
+//   npm run evaluate -- --judgments judgments.json [--env test] [--k 10]
+//     [--url http://localhost:3000] [--out report.json] [--csv report.csv]
+//     [--compare production | --baseline previous-report.json]
+
+import { readFile, writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { proxyTransport } from '../app/lib/embeddings';
+import {
+  DEFAULT_K,
+  diffReports,
+  parseJudgments,
+  parseReport,
+  reportToCsv,
+  runEvaluation,
+  type EvaluationReport,
+  type QueryMetrics,
+} from '../app/lib/evaluation';
+
+const { values } = parseArgs({
+  options: {
+    judgments: { type: 'string', short: 'j' },
+    url: { type: 'string', default: 'http://localhost:3000' },
+    env: { type: 'string', default: '' },
+    k: { type: 'string', default: String(DEFAULT_K) },
+    concurrency: { type: 'string', default: '4' },
+    out: { type: 'string' },
+    csv: { type: 'string' },
+    compare: { type: 'string' },
+    baseline: { type: 'string' },
+  },
+});
+
+function formatMetrics(metrics?: QueryMetrics) {
+  return metrics
+    ? [metrics.recall, metrics.reciprocalRank, metrics.ndcg].map((value) => value.toFixed(4).padStart(8)).join(' ')
+    : '       -        -        -';
+}
+
+function formatDelta(metrics?: QueryMetrics) {
+  return metrics
+    ? [metrics.recall, metrics.reciprocalRank, metrics.ndcg]
+      .map((value) => `${value >= 0 ? '+' : ''}${value.toFixed(4)}`.padStart(8)).join(' ')
+    : '';
+}
+
+async function evaluate(env: string, k: number, judgmentsJson: string): Promise<EvaluationReport> {
+  const url = values.url!.replace(/\/$/, '');
+  return runEvaluation(parseJudgments(judgmentsJson), k, env, {
+    transport: proxyTransport(env, url),
+    concurrency: parseInt(values.concurrency!, 10) || 4,
+    onProgress: (done, total) => process.stderr.write(`\r${env || 'default'}: ${done}/${total}`),
+  }).finally(() => process.stderr.write('\n'));
+}
+
+async function main() {
+  if (!values.judgments) {
+    console.error('Usage: npm run evaluate -- --judgments judgments.json [--env test] [--k 10]');
+    process.exit(1);
+  }
+
+  const k = parseInt(values.k!, 10) || DEFAULT_K;
+  const judgmentsJson = await readFile(values.judgments, 'utf8');
+  const report = await evaluate(values.env!, k, judgmentsJson);
+
+  let baseline: EvaluationReport | undefined;
+  if (values.compare !== undefined) {
+    baseline = await evaluate(values.compare, k, judgmentsJson);
+  } else if (values.baseline) {
+    baseline = parseReport(await readFile(values.baseline, 'utf8'));
+  }
+
+  console.log(`${'query'.padEnd(40)}   recall      mrr     ndcg`);
+  if (baseline) {
+    diffReports(baseline, report).forEach((diff) => {
+      console.log(`${diff.query.slice(0, 40).padEnd(40)} ${formatMetrics(diff.candidate)}  ${formatDelta(diff.delta)}`);
+    });
+    console.log(`${'(mean, baseline)'.padEnd(40)} ${formatMetrics(baseline.summary)}`);
+  } else {
+    report.queries.forEach((entry) => {
+      console.log(`${entry.query.slice(0, 40).padEnd(40)} ${formatMetrics(entry.metrics)}${entry.error ? `  ${entry.error}` : ''}`);
+    });
+  }
+  console.log(`${'(mean)'.padEnd(40)} ${formatMetrics(report.summary)}`);
+
+  if (values.out) {
+    await writeFile(values.out, JSON.stringify(report, null, 2));
+  }
+  if (values.csv) {
+    await writeFile(values.csv, reportToCsv(report));
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,70 @@
+// Stands in for the network in tests. Requests to the mock environment's
+// base URL are answered by the mock embeddings API route (the local stub
+// upstream) and requests to the app's own /api routes by their handlers, so
+// a test takes the same path through the proxy a browser request does.
+
+import { vi } from 'vitest';
+import { GET as artworkRoute } from '@/app/api/artwork/route';
+import { POST as imageRoute } from '@/app/api/artwork/image/route';
+import { GET as environmentsRoute } from '@/app/api/environments/route';
+import { GET as mockGet, POST as mockPost } from '@/app/api/mock/[...path]/route';
+
+// Where the app and its mock environment are served in tests
+export const APP_ORIGIN = 'http://localhost:3000';
+
+export interface FetchStub {
+  // Every request made, to the app's routes and the upstream alike
+  requests: Request[];
+}
+
+// Answers upstream requests in place of the mock API; returning undefined
+// leaves the request to the mock API
+export type UpstreamOverride = (request: Request) => Response | undefined | Promise<Response | undefined>;
+
+function route(request: Request): Promise<Response> {
+  const { pathname } = new URL(request.url);
+
+  if (pathname.startsWith('/api/mock/')) {
+    return request.method === 'POST' ? mockPost(request) : mockGet(request);
+  }
+  if (pathname === '/api/artwork') {
+    return artworkRoute(request);
+  }
+  if (pathname === '/api/artwork/image') {
+    return imageRoute(request);
+  }
+  if (pathname === '/api/environments') {
+    return environmentsRoute();
+  }
+  return Promise.resolve(Response.json({ detail: 'Not Found' }, { status: 404 }));
+}
+
+// Replace the global fetch until the end of the test
+export function stubFetch(upstream?: UpstreamOverride): FetchStub {
+  const stub: FetchStub = { requests: [] };
+
+  vi.stubGlobal('fetch', async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = new URL(input instanceof Request ? input.url : String(input), APP_ORIGIN);
+    // The signal is left out: it may come from a different realm (jsdom)
+    const request = new Request(url, { method: init.method, headers: init.headers, body: init.body });
+    stub.requests.push(request.clone());
+
+    if (upstream && url.pathname.startsWith('/api/mock/')) {
+      const response = await upstream(request.clone());
+      if (response) {
+        return response;
+      }
+    }
+    return route(request);
+  });
+
+  return stub;
+}
+
+// The API paths the app asked the proxy for, in order
+export function proxiedPaths(stub: FetchStub) {
+  return stub.requests
+    .map((request) => new URL(request.url))
+    .filter((url) => url.pathname === '/api/artwork')
+    .map((url) => url.searchParams.get('path'));
+}
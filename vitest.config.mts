@@ -0,0 +1,26 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  esbuild: {
+    jsx: 'automatic',
+  },
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('.', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['app/**/*.test.{ts,tsx}'],
+    setupFiles: ['./test/setup.ts'],
+    // Tests talk to the mock API; the rate limiter and retries get tests of
+    // their own
+    env: {
+      AIC_API_DEFAULT_ENVIRONMENT: 'mock',
+      AIC_RATE_LIMIT_PER_MINUTE: '0',
+      AIC_UPSTREAM_RETRIES: '0',
+    },
+    // The proxy logs a line per request
+    onConsoleLog: (log) => !log.includes('"msg":"proxy_request"'),
+  },
+});